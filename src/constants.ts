@@ -27,6 +27,8 @@ export default {
     WEB_TARGET: process.env["WEB_TARGET"] || "http://localhost:3001",
     /* The path to store files in. */
     STORAGE_PATH: $("STORAGE_PATH", `${process.cwd()}/files`),
+    /* The maximum size of the stored files in megabytes. */
+    STORAGE_MAX_SIZE: parseInt($("STORAGE_MAX_SIZE", "10240")),
     /* The MongoDB connection URI to use. */
     MONGODB_URI: $("MONGODB_URI", <string> "mongodb://127.0.0.1:27017/"),
 
@@ -41,6 +43,9 @@ export default {
     /* Spotify redirect URI. */
     SPOTIFY_REDIRECT_URI: $("SPOTIFY_REDIRECT_URI", ""),
 
+    /* SoundCloud client ID. Scraped from the website if empty. */
+    SOUNDCLOUD_CLIENT_ID: $("SOUNDCLOUD_CLIENT_ID", ""),
+
     /* Discord client ID. */
     DISCORD_CLIENT_ID: $("DISCORD_CLIENT_ID", ""),
     /* Discord client secret. */
@@ -65,8 +70,13 @@ export default {
     /* Discord logging webhook. */
     DISCORD_WEBHOOK: $("DISCORD_WEBHOOK", ""),
 
+    /* The token used to access administrative routes. */
+    ADMIN_TOKEN: $("ADMIN_TOKEN", ""),
+
     /* HTTP proxy list path. */
     HTTP_PROXIES: process.env["HTTP_PROXIES"] || `${process.cwd()}/proxies.txt`,
+    /* The time to keep a room open after the host disconnects. */
+    ROOM_GRACE_PERIOD: 60e3,
     /* Use custom listening text. */
     CUSTOM_LISTENING: $<string>("CUSTOM_LISTENING", "no") == "yes",
 
@@ -165,6 +175,10 @@ export default {
     NO_AUTHORIZATION: () => {
         return { timestamp: Date.now(), code: 403, message: "No authorization provided." };
     },
+    /* Conflicting edit. */
+    CONFLICT: () => {
+        return { timestamp: Date.now(), code: 409, message: "The resource was changed by another request." };
+    },
     /* Unhandled exception. */
     INTERNAL_ERROR: () => {
         return { timestamp: Date.now(), code: 500, message: "Internal server error." }
@@ -0,0 +1,41 @@
+import constants from "app/constants";
+import type { Lyrics, Track } from "app/types";
+import { parseLrc } from "app/utils";
+
+// The base URL of the LRCLIB API.
+const apiUrl = "https://lrclib.net/api";
+
+/**
+ * Fetches the lyrics of a track from LRCLIB.
+ * Prefers synced lyrics over plain lyrics.
+ * @param track The track to fetch the lyrics of.
+ */
+export async function lyrics(track: Track): Promise<Lyrics | null> {
+    // Create the request URL.
+    const url = new URL(`${apiUrl}/get`);
+    url.searchParams.set("track_name", track.title);
+    url.searchParams.set("artist_name", track.artist);
+    url.searchParams.set("duration", track.duration.toString());
+
+    // Perform the request.
+    const response = await fetch(url, {
+        headers: { "User-Agent": `Laudiolin (${constants.TARGET})` }
+    });
+    if (!response.ok) return null;
+
+    // Parse the lyrics.
+    const data = await response.json();
+    if (data.instrumental) return null;
+
+    const lines = data.syncedLyrics ? parseLrc(data.syncedLyrics) : [];
+    const plain = data.plainLyrics ?? lines.map((line) => line.text).join("\n");
+    if (lines.length == 0 && !plain) return null;
+
+    return {
+        id: track.id,
+        synced: lines.length > 0,
+        lines,
+        plain,
+        source: "LRCLIB"
+    };
+}
@@ -0,0 +1,76 @@
+// This file keeps track of the available engines.
+// Routes look engines up here instead of switching over their names.
+
+/* Imports. */
+import type { Engine, SearchEngine } from "app/types";
+import { identifyId, identifyUrl, isUrl } from "app/utils";
+
+import * as smart from "engines/smart";
+import * as youtube from "engines/youtube";
+import * as ytmusic from "engines/ytmusic";
+import * as spotify from "engines/spotify";
+import * as soundcloud from "engines/soundcloud";
+
+const engines: { [key: string]: Engine } = {}; // Registered engines by name.
+
+register("YouTube", youtube);
+register("YouTube Music", ytmusic);
+register("Spotify", spotify);
+register("SoundCloud", soundcloud);
+register("All", smart);
+
+/**
+ * Registers an engine.
+ * @param name The name of the engine.
+ * @param engine The engine implementation.
+ */
+export function register(name: SearchEngine, engine: Engine): void {
+    engines[name] = engine;
+}
+
+/**
+ * Returns the names of all registered engines.
+ */
+export function names(): SearchEngine[] {
+    return <SearchEngine[]>Object.keys(engines);
+}
+
+/**
+ * Returns an engine by its name.
+ * @param name The name of the engine.
+ * @return The engine, or null if none is registered.
+ */
+export function get(name: string | null): Engine | null {
+    return engines[name] ?? null;
+}
+
+/**
+ * Returns the engine which a URL belongs to.
+ * @param url The URL to identify.
+ * @return The engine, or null if none is registered.
+ */
+export function fromUrl(url: string): Engine | null {
+    return get(identifyUrl(url));
+}
+
+/**
+ * Finds the engine to handle a track.
+ * Track URLs are resolved into the engine's ID.
+ * @param id The ID or URL of the track.
+ * @param name (optional) The name of the engine to use.
+ * @return The engine & track ID, or null if the track cannot be handled.
+ */
+export async function resolve(id: string, name: string = ""): Promise<{ engine: Engine; id: string } | null> {
+    let engine = name != "" ? get(name) : null;
+    if (name != "" && engine == null) return null;
+
+    // Check if the track is a URL.
+    if (isUrl(id)) {
+        engine = engine ?? fromUrl(id);
+        id = await engine?.resolveUrl?.(id);
+    } else {
+        engine = engine ?? get(identifyId(id));
+    }
+
+    return engine && id ? { engine, id } : null;
+}
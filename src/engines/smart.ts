@@ -1,16 +1,16 @@
 import { logger } from "app/index";
-import { proxyFetch, shuffle } from "app/utils";
 import constants from "app/constants";
 
-import type { SearchResult, SearchResults, Track } from "app/types";
-import { blankResult } from "features/search";
+import type {
+    AudioSource, OutputOptions, SearchOptions,
+    SearchResult, SearchResults, Suggestions, Track
+} from "app/types";
+import * as cursors from "features/cursors";
+import * as yt from "engines/youtube";
+import * as ytm from "engines/ytmusic";
+import * as spotify from "engines/spotify";
 
 import { Innertube } from "youtubei.js";
-import { ObservedArray } from "youtubei.js/dist/src/parser/helpers";
-import Music from "youtubei.js/dist/src/core/Music";
-import Search from "youtubei.js/dist/src/parser/ytmusic/Search";
-import Video from "youtubei.js/dist/src/parser/classes/Video";
-import MusicResponsiveListItem from "youtubei.js/dist/src/parser/classes/MusicResponsiveListItem";
 import VideoInfo from "youtubei.js/dist/src/parser/youtube/VideoInfo";
 
 /*
@@ -22,7 +22,6 @@ import VideoInfo from "youtubei.js/dist/src/parser/youtube/VideoInfo";
  */
 async function configure(): Promise<void> {
     youtube = await Innertube.create(); // Create the YouTube API.
-    ytmusic = youtube.music; // Create the YouTube Music API.
 }
 
 /*
@@ -30,7 +29,6 @@ async function configure(): Promise<void> {
  */
 
 let youtube: Innertube | null = null;
-let ytmusic: Music | null = null;
 
 configure() // Configure the search APIs.
     .then(() => logger.info("Configured search engines."))
@@ -44,166 +42,102 @@ configure() // Configure the search APIs.
 
 /**
  * Performs a smart search.
+ * Types other than songs are searched on a single engine.
  * @param query The query to search for.
+ * @param options The search options.
  */
-export async function search(query: string): Promise<SearchResults> {
-    const ytMusicSearch = await ytmusic.search(query);
-    const ytSearch = await youtube.search(query);
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const type = options.type ?? "songs";
+    if (type == "videos") return await yt.search(query, options);
+    if (type != "songs") return await ytm.search(query, options);
 
-    const results: SearchResult[] = [];
-    results.push(...(await parseTracks(ytMusicSearch)));
-    results.push(...parseVideos(ytSearch));
+    // Continue from the previous page.
+    if (options.page) return await cursors.load<SearchResults>(options.page)
+        ?? { top: undefined, results: [], next: null };
 
-    return {
-        top: results[0] ?? blankResult,
-        results: results.length > 0 ? shuffle(results) : [blankResult]
-    };
+    return merge(...await Promise.all([
+        ytm.search(query), yt.search(query, { type: "videos" })]));
 }
 
 /**
- * Fetches a track's data from its ID.
- * @param id The ID of the track to fetch.
- * @param engine The engine to search from.
+ * Merges a page of YouTube Music & YouTube results.
+ * @param music The YouTube Music results.
+ * @param videos The YouTube results.
  */
-export async function fetchTrack(id: string, engine?: string): Promise<Track | null> {
-    // Get the video data.
-    const video = await youtube.getInfo(id);
-    // Parse the video into a track.
-    return parseVideoInfo(video);
-}
+function merge(music: SearchResults | null, videos: SearchResults | null): SearchResults {
+    const results: SearchResult[] = [...(music?.results ?? []), ...(videos?.results ?? [])]
+        .map((result) => ({ ...result, icon: proxyIcon(result.icon) }));
 
-/**
- * Parses a YouTube Music search into a collection of tracks.
- * @param search The search to parse.
- * @return Parsed search results.
- */
-async function parseTracks(search: Search): Promise<SearchResult[]> {
-    // Extract different search results.
-    // These are sorted from high -> low priority.
-    const albums: any = search.albums;
-    const songs: any = search.songs;
-
-    // Parse each search result into a collection of tracks.
-    let albumTracks = [], songTracks = [];
-    if (albums && albums.contents) albumTracks = await parseShelf(albums.contents);
-    if (songs && songs.contents) songTracks = await parseShelf(songs.contents);
-
-    // Merge all tracks into a single collection.
-    return [...albumTracks, ...songTracks];
+    // Continue both engines on the next page.
+    const next = music?.next || videos?.next ? cursors.save(async () => merge(...await Promise.all([
+        music?.next ? ytm.search("", { page: music.next }) : null,
+        videos?.next ? yt.search("", { type: "videos", page: videos.next }) : null
+    ]))) : null;
+
+    return { top: results[0], results, next };
 }
 
 /**
- * Returns search results from within an album.
- * @param album The album to search within.
+ * Completes a partial query.
+ * Completions are from YouTube Music, matches are from Spotify.
+ * @param query The partial query.
  */
-async function parseAlbum(album: MusicResponsiveListItem): Promise<SearchResult[]> {
-    // Check the item type.
-    if (album.item_type != "album") return [];
-
-    // Get the album tracks.
-    const result = await ytmusic.getAlbum(album.id);
-    const tracks = result.contents;
-
-    // Get album data.
-    const icon = album.thumbnails[0].url;
-    const artist = album.author ? album.author.name : "Unknown";
+export async function suggest(query: string): Promise<Suggestions> {
+    const results = await Promise.allSettled([
+        ytm.suggest(query), spotify.suggest(query)]);
+
+    // Merge the suggestions of each engine.
+    const suggestions: Suggestions = { queries: [], tracks: [], artists: [] };
+    for (const result of results) {
+        if (result.status != "fulfilled") continue;
+
+        suggestions.queries.push(...result.value.queries);
+        suggestions.tracks.push(...result.value.tracks);
+        suggestions.artists.push(...result.value.artists);
+    }
 
-    return tracks.map((track) => parseItem(track, icon, artist));
+    return suggestions;
 }
 
 /**
- * Parses a music shelf object into search results.
- * @param shelf The shelf to parse. (should be a "getMore" result)
+ * Fetches a track's data from its ID.
+ * @param id The ID of the track to fetch.
+ * @param engine The engine to search from.
  */
-async function parseShelf(shelf: ObservedArray<MusicResponsiveListItem>): Promise<SearchResult[]> {
-    if (!shelf) return [];
-
-    const results: SearchResult[] = [];
-    for (const track of shelf) {
-        if (!(track instanceof MusicResponsiveListItem)) return;
-
-        // Check the item type.
-        if (track.item_type == "album") results.push(...(await parseAlbum(track)));
-        else results.push(parseItem(track));
-    }
-
-    return results;
+export async function fetchTrack(id: string, engine?: string): Promise<Track | null> {
+    // Get the video data.
+    const video = await youtube.getInfo(id);
+    // Parse the video into a track.
+    return parseVideoInfo(video);
 }
 
 /**
- * Parses an item into a search result.
- * @param item The item to parse.
- * @param icon (optional) The icon to use.
- * @param artist (optional) The artist to use.
+ * Streams the specified track.
+ * Smart search results are streamed from YouTube.
+ * @param id The ID of the track to stream.
+ * @param quality The quality of the stream.
  */
-function parseItem(
-    item: MusicResponsiveListItem,
-    icon: string | null = null,
-    artist: string | null = null
-): SearchResult {
-    let artists = artist ?? "";
-
-    // Check the artists type.
-    if (item.artists) {
-        for (let i = 0; i < item.artists.length; i++) {
-            artists += item.artists[i].name;
-            if (i < item.artists.length - 1) artists += ", ";
-        }
-    } else if (item.author) {
-        artists = item.author.name;
-    }
-
-    // Check if the icon should be requested through the proxy.
-    if (!icon) icon = item.thumbnails[0].url;
-    if (icon.includes("lh3.googleusercontent")) {
-        icon = `${constants.TARGET}/proxy/${icon.split("/")[3]}?from=cart`;
-    }
-
-    return {
-        title: item.title,
-        artist: artists,
-        icon,
-        url: "https://youtu.be/" + item.id,
-        id: item.id,
-        duration: item.duration.seconds
-    };
+export async function stream(id: string, quality: string): Promise<AudioSource> {
+    return await yt.stream(id, quality);
 }
 
 /**
- * Parses YouTube video search results.
- * @param search The YouTube search results.
+ * Downloads the specified track.
+ * Smart search results are downloaded from YouTube.
+ * @param id The ID of the track to download.
+ * @param options The format to convert the track to.
  */
-function parseVideos(search: any): SearchResult[] {
-    const results = search.results; // Pull search results.
-    const videos = results.filter(
-        // Filter out non-video results.
-        (result) => result.type === "Video"
-    );
-
-    // Parse each video.
-    const filteredVideos = [];
-    for (const video of videos) {
-        let result = parseVideo(video);
-        if (result) filteredVideos.push(result);
-    }
-    return filteredVideos;
+export async function download(id: string, options?: OutputOptions): Promise<string> {
+    return await yt.download(id, options);
 }
 
 /**
- * Parses a video into a search result.
- * @param video The video to parse.
+ * Requests YouTube Music icons through the proxy.
+ * @param icon The URL of the icon.
  */
-function parseVideo(video: Video): SearchResult | null {
-    if (!video.duration.seconds) return null;
-
-    return {
-        title: video.title.text,
-        artist: video.author.name,
-        icon: video.best_thumbnail.url,
-        url: `https://youtu.be/${video.id}`,
-        duration: video.duration.seconds,
-        id: video.id
-    };
+function proxyIcon(icon: string): string {
+    if (!icon.includes("lh3.googleusercontent")) return icon;
+    return `${constants.TARGET}/proxy/${icon.split("/")[3]}?from=cart`;
 }
 
 /**
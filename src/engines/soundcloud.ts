@@ -0,0 +1,277 @@
+import { logger } from "app/index";
+import constants from "app/constants";
+import type {
+    AudioSource,
+    ImportProgress,
+    OutputOptions,
+    Playlist,
+    SearchOptions,
+    SearchResult,
+    SearchResults,
+    Track
+} from "app/types";
+import * as storage from "features/storage";
+import * as transcode from "features/transcode";
+
+import { writeFile, rm } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { streamToIterable } from "youtubei.js/dist/src/utils/Utils";
+
+// The base URL of the SoundCloud API.
+const apiUrl = "https://api-v2.soundcloud.com";
+// The client ID used to make requests.
+let clientId: string = constants.SOUNDCLOUD_CLIENT_ID;
+
+authorize() // Authorize the SoundCloud API.
+    .then(() => logger.info("Successfully authenticated with the SoundCloud API."))
+    .catch((error) => logger.error("Failed to authenticate with the SoundCloud API.", error));
+
+/**
+ * Authorizes with the SoundCloud API.
+ * Scrapes a client ID from the website if none is configured.
+ */
+export async function authorize(): Promise<void> {
+    // Check if a client ID is configured.
+    if (clientId != "") return;
+
+    // Fetch the SoundCloud home page.
+    const page = await (await fetch("https://soundcloud.com")).text();
+    // Find all the application scripts.
+    const scripts = page.match(/https:\/\/a-v2\.sndcdn\.com\/assets\/[^"]+\.js/g) ?? [];
+
+    // Search the scripts for a client ID.
+    for (const script of scripts.reverse()) {
+        const source = await (await fetch(script)).text();
+        const match = source.match(/client_id\s*:\s*"([a-zA-Z0-9]{32})"/);
+        if (match) {
+            clientId = match[1];
+            return;
+        }
+    }
+
+    throw new Error("Unable to find a SoundCloud client ID.");
+}
+
+/**
+ * Performs a request to the SoundCloud API.
+ * @param endpoint The endpoint or URL to request.
+ * @param params The query parameters to add.
+ */
+async function request(endpoint: string, params: { [key: string]: string } = {}): Promise<any> {
+    // Create the request URL.
+    const url = new URL(endpoint.startsWith("http") ? endpoint : `${apiUrl}${endpoint}`);
+    for (const key in params) url.searchParams.set(key, params[key]);
+    url.searchParams.set("client_id", clientId);
+
+    // Perform the request.
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`SoundCloud responded with ${response.status}.`);
+
+    return await response.json();
+}
+
+/**
+ * Performs a SoundCloud search.
+ * Only songs can be searched for.
+ * @param query The query to search for.
+ * @param options The search options.
+ */
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    if ((options.type ?? "songs") != "songs") return { top: undefined, results: [], next: null };
+
+    const offset = parseInt(options.page) || 0;
+    const search = await request("/search/tracks", {
+        q: query,
+        limit: "20",
+        offset: offset.toString()
+    });
+
+    const results = [];
+    for (const track of search.collection) {
+        const result = parseTrack(track);
+        if (result == null) continue;
+        results.push(result);
+    }
+
+    return {
+        top: results[0],
+        results,
+        next: search.next_href ? (offset + search.collection.length).toString() : null
+    };
+}
+
+/**
+ * Fetches a track's data from its ID.
+ * @param id The ID of the track to fetch.
+ */
+export async function fetchTrack(id: string): Promise<Track | null> {
+    return parseTrack(await request(`/tracks/${id}`));
+}
+
+/**
+ * Resolves the track ID of a SoundCloud URL.
+ * @param url The URL to resolve.
+ */
+export async function resolveUrl(url: string): Promise<string | null> {
+    const track = await request("/resolve", { url });
+    return track.kind == "track" ? track.id.toString() : null;
+}
+
+/**
+ * Creates a playlist from a SoundCloud set.
+ * @param url The set URL.
+ */
+export async function playlist(url: string, progress?: ImportProgress): Promise<Playlist> {
+    const set = await request("/resolve", { url });
+    if (set.kind != "playlist") return null;
+
+    // Create the playlist data.
+    const playlist: Playlist = {
+        owner: "",
+        id: "",
+        name: set.title ?? "No title.",
+        description: set.description ?? "No description.",
+        icon: getIcon(set) ?? "",
+        isPrivate: set.sharing != "public",
+        tracks: []
+    };
+
+    // Sets only include the full data of the first few tracks.
+    const tracks: any[] = set.tracks ?? [];
+    const missing = tracks.filter((track) => !track.title).map((track) => track.id);
+
+    // Fetch the missing tracks in batches.
+    const fetched: { [key: string]: any } = {};
+    for (let i = 0; i < missing.length; i += 50) {
+        const batch = await request("/tracks", {
+            ids: missing.slice(i, i + 50).join(",")
+        });
+        for (const track of batch) fetched[track.id] = track;
+    }
+
+    // Track the import progress.
+    progress ??= { loaded: 0, total: null, skipped: [] };
+    progress.total = tracks.length;
+
+    // Parse the playlist tracks.
+    for (const track of tracks) {
+        const parsed = parseTrack(fetched[track.id] ?? track);
+        if (parsed) playlist.tracks.push(parsed);
+        else
+            progress.skipped.push({
+                id: track.id.toString(),
+                title: fetched[track.id]?.title ?? null,
+                reason: "The track cannot be played."
+            });
+    }
+    progress.loaded = tracks.length;
+
+    return playlist;
+}
+
+/**
+ * Parses a SoundCloud track into a search result.
+ * @param track The SoundCloud track to parse.
+ */
+export function parseTrack(track: any): SearchResult | null {
+    if (!track || !track.title || track.kind != "track") return null;
+    // Check if the track can be played.
+    if (track.policy == "BLOCK" || track.streamable == false) return null;
+
+    return {
+        title: track.title,
+        artist: track.user?.username ?? "Unknown",
+        icon: getIcon(track) ?? "",
+        url: track.permalink_url,
+        id: track.id.toString(),
+        duration: Math.floor(track.duration / 1000),
+
+        album: track.publisher_metadata?.album_title || undefined,
+        year: new Date(track.release_date ?? track.created_at).getFullYear() || undefined,
+        isrc: track.publisher_metadata?.isrc || undefined,
+        explicit: track.publisher_metadata?.explicit,
+        genre: track.genre || undefined
+    };
+}
+
+/**
+ * Returns the highest resolution artwork of a track or set.
+ * @param item The track or set.
+ */
+function getIcon(item: any): string | null {
+    const icon = item.artwork_url ?? item.user?.avatar_url;
+    return icon ? icon.replace("-large", "-t500x500") : null;
+}
+
+/**
+ * Resolves the URL of the progressive MP3 stream of a track.
+ * @param track The SoundCloud track.
+ */
+async function getStreamUrl(track: any): Promise<string> {
+    // Find a progressive transcoding.
+    const transcodings: any[] = track.media?.transcodings ?? [];
+    const transcoding = transcodings.find((transcoding) => transcoding.format.protocol == "progressive");
+    if (!transcoding) throw new Error("The track has no progressive stream.");
+
+    // Resolve the stream URL.
+    return (await request(transcoding.url)).url;
+}
+
+/**
+ * Downloads the specified track.
+ * Saves the track to the storage.
+ * Returns the path to the file on the local system.
+ * @param id The ID of the track to download.
+ * @param options The format to convert the track to.
+ */
+export async function download(id: string, options: OutputOptions = transcode.defaultOutput): Promise<string> {
+    const file = transcode.fileName(id, options);
+
+    return await storage.download(file, "SoundCloud", options.bitrate, async (filePath) => {
+        // Fetch the track data.
+        const track = await request(`/tracks/${id}`);
+        const response = await fetch(await getStreamUrl(track));
+        if (!response.ok) throw new Error("Failed to download the track.");
+
+        // Write the data to a temporary file.
+        const temporary = `${filePath}.raw`;
+        await writeFile(temporary, Buffer.from(await response.arrayBuffer()));
+
+        // Convert the data with ffmpeg.
+        await transcode
+            .convert(temporary, filePath, options, parseTrack(track))
+            .finally(() => rm(temporary, { force: true }));
+    });
+}
+
+/**
+ * Streams the specified track.
+ * Uses the downloaded file if it exists.
+ * SoundCloud only offers one quality to non-subscribers.
+ * @param id The ID of the track to stream.
+ * @param quality The quality of the stream.
+ */
+export async function stream(id: string, quality: string): Promise<AudioSource> {
+    // Check if the track has been downloaded.
+    const local = storage.source(`${id}.mp3`);
+    if (local) return local;
+
+    // Read the length of the track.
+    const url = await getStreamUrl(await request(`/tracks/${id}`));
+    const response = await fetch(url, { method: "HEAD" });
+    if (!response.ok) throw new Error("Failed to stream the track.");
+
+    return {
+        length: parseInt(response.headers.get("Content-Length")),
+        mimeType: response.headers.get("Content-Type") ?? "audio/mpeg",
+        open: async (start, end) => {
+            // Request the byte range of the track.
+            const response = await fetch(url, {
+                headers: { Range: `bytes=${start}-${end}` }
+            });
+            if (!response.ok) throw new Error("Failed to stream the track.");
+
+            return Readable.from(streamToIterable(response.body));
+        }
+    };
+}
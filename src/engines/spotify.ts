@@ -1,12 +1,18 @@
 import { logger } from "app/index";
-import { Playlist, SearchResult, SearchResults } from "app/types";
+import {
+    Album, Artist, AudioSource, OutputOptions, Playlist,
+    ImportProgress, PlaylistResult, SearchOptions, SearchResult, SearchResults,
+    Suggestions, Track, TrackMetadata
+} from "app/types";
 import constants from "app/constants";
-import filter from "filters/spotifySong";
+import filter, { bestMatch } from "filters/spotifySong";
 import SpotifyWebApi from "spotify-web-api-node";
 
 import * as youtube from "./youtube";
 import * as utils from "app/utils";
-import Format from "youtubei.js/dist/src/parser/classes/misc/Format";
+import * as transcode from "features/transcode";
+import * as matches from "features/matches";
+import { Cache } from "features/cache";
 
 const spotify = new SpotifyWebApi({
     clientId: constants.SPOTIFY_CLIENT_ID,
@@ -20,10 +26,12 @@ setInterval(() => {
     authorize();
 }, 1000 * 60 * 60);
 
-// Cached, filtered search results.
-const cache: { [key: string]: SearchResults } = {};
-// Cached Spotify tracks.
-const tracks: { [key: string]: SearchResult } = {};
+// Cached Spotify tracks by ISRC.
+const tracks = new Cache<SearchResult>("spotify-tracks", 24 * 60 * 60e3, 5000, true);
+// Cached ISRCs by Spotify ID.
+const isrcs = new Cache<string>("spotify-isrcs", 30 * 24 * 60 * 60e3, 5000, true);
+// Cached genres by Spotify artist ID.
+const genres = new Cache<string>("spotify-genres", 30 * 24 * 60 * 60e3, 5000, true);
 
 /**
  * Authorizes with the Spotify API.
@@ -43,25 +51,73 @@ export function authorize(): void {
 /**
  * Performs a Spotify search.
  * @param query The query to search for.
- * @param smartFilter Whether to perform a smart filter on the results.
+ * @param options The search options.
  */
-export async function search(query: string, smartFilter: boolean = false): Promise<SearchResults> {
-    const search = await spotify.searchTracks(query);
-
-    let results = [];
-    for (const track of search.body.tracks.items) {
-        const result = parseTrack(track);
-        if (result == null) continue;
-        results.push(result);
-    } results = results.slice(0, 8);
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const type = options.type ?? "songs";
+    const offset = parseInt(options.page) || 0;
+
+    // Spotify does not have videos.
+    if (type == "videos") return { top: undefined, results: [], next: null };
+
+    const { body } = await spotify.search(query,
+        [type == "songs" ? "track" : <"album" | "artist" | "playlist"> type.slice(0, -1)],
+        { offset, limit: 20 });
+
+    // Parse the results of the searched type.
+    const data: SearchResults = { top: undefined, results: [] };
+    let page: { items: any[], next: string | null };
+    switch (type) {
+        case "albums":
+            page = body.albums;
+            data.albums = body.albums.items
+                .map((album) => parseAlbum(album));
+            break;
+        case "artists":
+            page = body.artists;
+            data.artists = body.artists.items
+                .map((artist) => parseArtist(artist));
+            break;
+        case "playlists":
+            page = body.playlists;
+            data.playlists = body.playlists.items
+                .filter((playlist) => playlist != null)
+                .map((playlist) => parsePlaylist(playlist));
+            break;
+        default:
+            page = body.tracks;
+            data.results = body.tracks.items
+                .map((track) => parseTrack(track))
+                .filter((track) => track != null);
+            data.top = data.results[0];
+            break;
+    }
+    data.next = page.next ? (offset + page.items.length).toString() : null;
 
     // Return result data.
-    const data = { top: results[0], results };
-    if (!smartFilter) return data;
+    if (!options.smartFilter || type != "songs") return data;
 
-    // Return cached/filtered data.
-    if (cache[query]) return cache[query];
-    return (cache[query] = await filter(data));
+    // Return filtered data.
+    const filtered = await filter(data);
+    return filtered && { ...filtered, next: data.next };
+}
+
+/**
+ * Finds a few tracks & artists matching a partial query.
+ * Spotify does not complete queries.
+ * @param query The partial query.
+ */
+export async function suggest(query: string): Promise<Suggestions> {
+    const { body } = await spotify.search(query, ["track", "artist"], { limit: 5 });
+
+    return {
+        queries: [],
+        tracks: body.tracks.items
+            .map((track) => parseTrack(track))
+            .filter((track) => track != null),
+        artists: body.artists.items
+            .map((artist) => parseArtist(artist))
+    };
 }
 
 /**
@@ -75,11 +131,36 @@ export async function searchIsrc(isrc: string): Promise<SearchResult> {
         isrc = await getIsrc(isrc);
     }
 
-    const search = await spotify.searchTracks(`isrc:${isrc}`);
-    const items = search.body.tracks.items;
+    return await tracks.fetch(isrc, async () => {
+        const search = await spotify.searchTracks(`isrc:${isrc}`);
+        const items = search.body.tracks.items;
 
-    if (items.length == 0) return null;
-    return tracks[isrc] = parseTrack(items[0]);
+        return items.length == 0 ? null : parseTrack(items[0]);
+    });
+}
+
+/**
+ * Fetches a track's data from its ID.
+ * @param id The ISRC or Spotify ID of the track.
+ */
+export async function fetchTrack(id: string): Promise<SearchResult | null> {
+    return await searchIsrc(id);
+}
+
+/**
+ * Extracts the track ID from a Spotify URL.
+ * @param url The URL to resolve.
+ */
+export async function resolveUrl(url: string): Promise<string | null> {
+    return url.match(/track\/([a-zA-Z0-9]{22})/)?.[1] ?? null;
+}
+
+/**
+ * Converts an ISRC into a Spotify ID.
+ * @param id The ISRC or Spotify ID of the track.
+ */
+export async function reverse(id: string): Promise<string | null> {
+    return await spotifyId(id);
 }
 
 /**
@@ -97,11 +178,58 @@ export async function spotifyId(isrc: string): Promise<string> {
     return items[0].id;
 }
 
+/**
+ * Finds the metadata of a track from another engine.
+ * Matches the track by its ISRC, or by searching for it.
+ * @param track The track to find.
+ * @return The metadata, or null if the track was not found.
+ */
+export async function metadata(track: Track): Promise<TrackMetadata | null> {
+    const query = track.isrc ? `isrc:${track.isrc}` :
+        `track:${track.title} artist:${track.artist}`;
+    const items = (await spotify.searchTracks(query, { limit: 10 })).body.tracks.items;
+
+    // Find the closest track.
+    const results = items.map(parseTrack).filter((result) => result != null);
+    const result = track.isrc ? results[0] : bestMatch(track, results);
+    if (!result) return null;
+
+    // Use the genre of the main artist.
+    const artistId = items.find((item) => item.external_ids.isrc == result.id)?.artists[0]?.id;
+    const genre = artistId ? await genres.fetch(artistId, async () =>
+        (await spotify.getArtist(artistId)).body.genres[0] ?? null) : null;
+
+    return {
+        album: result.album,
+        artists: result.artists,
+        year: result.year,
+        isrc: result.isrc,
+        explicit: result.explicit,
+        genre: genre ?? undefined
+    };
+}
+
+/**
+ * Fetches tracks similar to the seed tracks.
+ * Spotify accepts up to 5 seeds.
+ * @param isrcs The ISRCs of the seed tracks.
+ * @param limit The maximum number of tracks to return.
+ */
+export async function recommendations(isrcs: string[], limit: number): Promise<SearchResult[]> {
+    const seeds = (await Promise.all(isrcs.slice(0, 5)
+        .map((isrc) => spotifyId(isrc).catch(() => null))))
+        .filter((id) => id != null);
+    if (seeds.length == 0) return [];
+
+    const {body} = await spotify.getRecommendations({ seed_tracks: seeds, limit });
+    return await getTracks(body.tracks.map((track) => track.id));
+}
+
 /**
  * Creates a playlist from a Spotify playlist.
  * @param url The playlist URL.
  */
-export async function playlist(url: string): Promise<Playlist> {
+export async function playlist(url: string, progress?: ImportProgress): Promise<Playlist> {
     const {body} = await spotify.getPlaylist(utils.extractPlaylistId(url));
 
     // Create the playlist data.
@@ -114,6 +242,10 @@ export async function playlist(url: string): Promise<Playlist> {
         tracks: []
     };
 
+    // Track the import progress.
+    progress ??= { loaded: 0, total: null, skipped: [] };
+    progress.total = body.tracks.total;
+
     // Parse the playlist tracks.
     let offset = 0, limit = body.tracks.total;
     let items = body.tracks.items;
@@ -122,11 +254,21 @@ export async function playlist(url: string): Promise<Playlist> {
             const track = item.track;
             if (!track) continue;
 
+            // Local files cannot be streamed.
+            if (item.is_local) {
+                progress.skipped.push({
+                    id: track.uri, title: track.name ?? null,
+                    reason: "The track is a local file."
+                });
+                continue;
+            }
+
             // Parse the track.
             const parsed = parseTrack(track);
             if (!parsed) continue;
             playlist.tracks.push(parsed);
         }
+        progress.loaded = offset + items.length;
 
         // Check if there are more tracks.
         if (offset < limit) {
@@ -139,6 +281,118 @@ export async function playlist(url: string): Promise<Playlist> {
     return playlist;
 }
 
+/**
+ * Fetches an album with its tracks.
+ * @param id The Spotify ID of the album.
+ */
+export async function album(id: string): Promise<Album | null> {
+    const {body} = await spotify.getAlbum(id);
+
+    // Collect the IDs of all album tracks.
+    const ids = body.tracks.items.map((track) => track.id);
+    while (ids.length < body.tracks.total) {
+        const items = (await spotify.getAlbumTracks(
+            id, { offset: ids.length, limit: 50 })).body.items;
+        if (items.length == 0) break;
+        ids.push(...items.map((track) => track.id));
+    }
+
+    return {
+        ...parseAlbum(body),
+        // Album tracks do not include their ISRCs.
+        tracks: await getTracks(ids)
+    };
+}
+
+/**
+ * Fetches an artist's page.
+ * @param id The Spotify ID of the artist.
+ */
+export async function artist(id: string): Promise<Artist | null> {
+    const {body} = await spotify.getArtist(id);
+    const topTracks = (await spotify.getArtistTopTracks(id, "US")).body.tracks;
+    const releases = (await spotify.getArtistAlbums(id, {
+        include_groups: "album,single", limit: 50 })).body.items;
+
+    return {
+        ...parseArtist(body),
+        topTracks: topTracks
+            .map((track) => parseTrack(track))
+            .filter((track) => track != null),
+        albums: releases
+            .filter((album) => album.album_type == "album")
+            .map((album) => parseAlbum(album)),
+        singles: releases
+            .filter((album) => album.album_type == "single")
+            .map((album) => parseAlbum(album))
+    };
+}
+
+/**
+ * Parses an artist without their page.
+ * @param artist The Spotify artist to parse.
+ */
+function parseArtist(artist: SpotifyApi.ArtistObjectFull): Artist {
+    return {
+        id: artist.id,
+        name: artist.name,
+        icon: artist.images[0]?.url ?? "",
+        url: artist.external_urls.spotify,
+        topTracks: [], albums: [], singles: []
+    };
+}
+
+/**
+ * Parses a playlist search result.
+ * @param playlist The Spotify playlist to parse.
+ */
+function parsePlaylist(playlist: SpotifyApi.PlaylistObjectSimplified): PlaylistResult {
+    return {
+        id: playlist.id,
+        name: playlist.name,
+        owner: playlist.owner.display_name ?? playlist.owner.id,
+        icon: playlist.images[0]?.url ?? "",
+        url: playlist.external_urls.spotify,
+        size: playlist.tracks.total
+    };
+}
+
+/**
+ * Fetches the full data of tracks.
+ * @param ids The Spotify IDs of the tracks.
+ */
+async function getTracks(ids: string[]): Promise<SearchResult[]> {
+    const tracks: SearchResult[] = [];
+
+    // Fetch the tracks in batches.
+    for (let i = 0; i < ids.length; i += 50) {
+        const batch = (await spotify.getTracks(ids.slice(i, i + 50))).body.tracks;
+        for (const track of batch) {
+            const parsed = track ? parseTrack(track) : null;
+            if (parsed) tracks.push(parsed);
+        }
+    }
+
+    return tracks;
+}
+
+/**
+ * Parses an album without its tracks.
+ * @param album The Spotify album to parse.
+ */
+function parseAlbum(album: SpotifyApi.AlbumObjectSimplified): Album {
+    return {
+        id: album.id,
+        name: album.name,
+        artist: album.artists[0]?.name ?? "Unknown",
+        artistId: album.artists[0]?.id ?? null,
+        icon: album.images[0]?.url ?? "",
+        url: album.external_urls.spotify,
+        year: parseInt(album.release_date) || null,
+        tracks: []
+    };
+}
+
 /**
  * Parses a track into a search result.
  * @param track The Spotify track to parse.
@@ -146,14 +400,19 @@ export async function playlist(url: string): Promise<Playlist> {
 export function parseTrack(track: any): SearchResult | null {
     if (track.id == null) return null;
 
-    const isrc = track.external_ids.isrc;
-    return tracks[isrc] = {
+    return {
         title: track.name,
         artist: track.artists[0].name,
         icon: track.album.images[0].url,
         url: track.external_urls.spotify,
         id: track.external_ids.isrc,
-        duration: Math.floor(track.duration_ms / 1000)
+        duration: Math.floor(track.duration_ms / 1000),
+
+        album: track.album?.name,
+        artists: track.artists.map((artist) => artist.name),
+        year: parseInt(track.album?.release_date) || undefined,
+        isrc: track.external_ids.isrc,
+        explicit: track.explicit
     };
 }
 
@@ -162,8 +421,10 @@ export function parseTrack(track: any): SearchResult | null {
  * @param spotifyId The Spotify ID of the track.
  */
 async function getIsrc(spotifyId: string): Promise<string> {
-    const {body} = await spotify.getTrack(spotifyId);
-    return body.external_ids.isrc ?? spotifyId;
+    return await isrcs.fetch(spotifyId, async () => {
+        const {body} = await spotify.getTrack(spotifyId);
+        return body.external_ids.isrc ?? spotifyId;
+    });
 }
 
 /**
@@ -171,8 +432,11 @@ async function getIsrc(spotifyId: string): Promise<string> {
  * Uses the YouTube engine to download an associated video.
  * Returns the path to the file on the local system.
  * @param isrc The ISRC of the track to download.
+ * @param options The format to convert the track to.
  */
-export async function download(isrc: string): Promise<string> {
+export async function download(
+    isrc: string, options: OutputOptions = transcode.defaultOutput
+): Promise<string> {
     // Check if the ID is an ISRC.
     if (isrc.length != 12) {
         // Get the ISRC from Spotify.
@@ -180,37 +444,21 @@ export async function download(isrc: string): Promise<string> {
     }
 
     // Get the track data from the ISRC.
-    let track = tracks[isrc];
-    if (!track) {
-        // Perform a search for the track.
-        track = await searchIsrc(isrc);
-    }
-
-    // Check if the track was found.
-    if (!track.title || !track.artist)
-        throw new Error("Failed to find the track.");
-
-    // Search for the track.
-    const searchResults = await youtube.search(
-        `${track.title} - ${track.artist} - Topic`);
-    const topResultUrl = searchResults.top.url;
+    const track = await searchIsrc(isrc);
+    // Find the video of the track.
+    const video = await matches.resolve(track);
 
     // Download the track.
-    return await youtube.download(topResultUrl);
+    return await youtube.download(video, options, track);
 }
 
 /**
  * Streams the specified track.
  * Uses the YouTube engine to download an associated video.
- * Pipes the data to the response.
- * @param isrc The ISRC of the track to download.
- * @param min The minimum byte range.
- * @param max The maximum byte range.
+ * @param isrc The ISRC of the track to stream.
  * @param quality The quality of the stream.
  */
-export async function stream(
-    isrc: string, min: number, max: number, quality: string
-): Promise<{ buffer: Uint8Array, data: Format }> {
+export async function stream(isrc: string, quality: string): Promise<AudioSource> {
     // Check if the ID is an ISRC.
     if (isrc.length != 12) {
         // Get the ISRC from Spotify.
@@ -218,21 +466,10 @@ export async function stream(
     }
 
     // Get the track data from the ISRC.
-    let track = tracks[isrc];
-    if (!track) {
-        // Perform a search for the track.
-        track = await searchIsrc(isrc);
-    }
-
-    // Check if the track was found.
-    if (!track.title || !track.artist)
-        throw new Error("Failed to find the track.");
+    const track = await searchIsrc(isrc);
+    // Find the video of the track.
+    const video = await matches.resolve(track);
 
-    // Search for the track.
-    const searchResults = await youtube.search(
-        `${track.title} - ${track.artist} - Topic`);
-    const topResultUrl = searchResults.top.url;
-
-    // Download the track.
-    return await youtube.stream(topResultUrl, min, max, quality);
+    // Stream the track.
+    return await youtube.stream(video, quality);
 }
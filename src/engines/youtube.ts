@@ -1,19 +1,28 @@
 import { logger } from "app/index";
-import constants from "app/constants";
 import { Innertube } from "youtubei.js";
 
-import { existsSync, createWriteStream, rmSync } from "node:fs";
+import { createWriteStream, rmSync } from "node:fs";
+import { Readable } from "node:stream";
 import { streamToIterable } from "youtubei.js/dist/src/utils/Utils";
 
-import { SearchResults, SearchResult, Playlist } from "app/types";
+import {
+    SearchResults, SearchResult, SearchOptions, SearchType, Playlist,
+    PlaylistResult, Artist, AudioSource, ImportProgress, OutputOptions, Suggestions, Track
+} from "app/types";
 import Music from "youtubei.js/dist/src/core/Music";
+import Search from "youtubei.js/dist/src/parser/youtube/Search";
 import Video from "youtubei.js/dist/src/parser/classes/Video";
-import Format from "youtubei.js/dist/src/parser/classes/misc/Format";
+import Channel from "youtubei.js/dist/src/parser/classes/Channel";
 import PlaylistVideo from "youtubei.js/dist/src/parser/classes/PlaylistVideo";
-import { DownloadOptions } from "youtubei.js/dist/src/parser/youtube/VideoInfo";
+import YTPlaylist from "youtubei.js/dist/src/parser/classes/Playlist";
+import { SearchFilters } from "youtubei.js/dist/src/Innertube";
+import VideoInfo, { DownloadOptions } from "youtubei.js/dist/src/parser/youtube/VideoInfo";
 
 import * as utils from "app/utils";
-import ffmpeg from "fluent-ffmpeg";
+import * as cursors from "features/cursors";
+import { Cache } from "features/cache";
+import * as storage from "features/storage";
+import * as transcode from "features/transcode";
 
 const downloadOptions: DownloadOptions = {
     type: "audio",
@@ -21,6 +30,9 @@ const downloadOptions: DownloadOptions = {
     format: "any"
 };
 
+// Cached video info by ID. (includes short-lived streaming data)
+const videos = new Cache<VideoInfo>("youtube-info", 60 * 60e3, 200);
+
 let youtube: Innertube | null = null;
 let music: Music | null = null;
 Innertube.create().then((instance) => {
@@ -29,31 +41,141 @@ Innertube.create().then((instance) => {
     logger.info("Successfully authenticated with the YouTube API.");
 });
 
+/* The YouTube search filter of each search type. */
+const searchTypes: { [key in SearchType]?: SearchFilters["type"] } = {
+    songs: "video",
+    videos: "video",
+    playlists: "playlist",
+    artists: "channel"
+};
+
 /**
  * Performs a YouTube video search.
  * @param query The query to search for.
+ * @param options The search options.
+ */
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const type = options.type ?? "songs";
+
+    // Continue from the previous page.
+    if (options.page) return await cursors.load<SearchResults>(options.page)
+        ?? { top: undefined, results: [], next: null };
+
+    // Check if the search can be performed.
+    if (!searchTypes[type]) return { top: undefined, results: [], next: null };
+
+    return parseSearch(await youtube.search(
+        query, { type: searchTypes[type] }), type);
+}
+
+/**
+ * Parses a page of search results.
+ * @param search The YouTube search to parse.
+ * @param type The type of results searched for.
+ */
+function parseSearch(search: Search, type: SearchType): SearchResults {
+    const data: SearchResults = {
+        top: undefined, results: [],
+        next: search.has_continuation ? cursors.save(async () =>
+            parseSearch(await search.getContinuation(), type)) : null
+    };
+
+    switch (type) {
+        case "playlists":
+            data.playlists = search.playlists
+                .filter((playlist) => playlist instanceof YTPlaylist)
+                .map((playlist) => parsePlaylist(<YTPlaylist> playlist));
+            break;
+        case "artists":
+            data.artists = search.channels
+                .filter((channel) => channel instanceof Channel)
+                .map((channel) => parseChannel(<Channel> channel));
+            break;
+        default:
+            data.results = search.videos
+                .filter((video) => video instanceof Video)
+                .map((video) => parseVideo(<Video> video));
+            data.top = data.results[0];
+            break;
+    }
+
+    return data;
+}
+
+/**
+ * Fetches YouTube's completions of a partial query.
+ * @param query The partial query.
  */
-export async function search(query: string): Promise<SearchResults> {
-    const search = await youtube.search(query);
-    const tracks = search.videos;
-
-    const results = tracks
-        .map((track) => {
-            if (track instanceof Video)
-                return parseVideo(track);
-        })
-        .slice(0, 8);
-
-    return { top: results[0], results };
+export async function suggest(query: string): Promise<Suggestions> {
+    return {
+        queries: await youtube.getSearchSuggestions(query),
+        tracks: [], artists: []
+    };
+}
+
+/**
+ * Parses a playlist search result.
+ * @param playlist The YouTube playlist to parse.
+ */
+function parsePlaylist(playlist: YTPlaylist): PlaylistResult {
+    const author = playlist.author;
+
+    return {
+        id: playlist.id,
+        name: playlist.title.toString(),
+        owner: "name" in author ? author.name : author.toString(),
+        icon: playlist.thumbnails[0]?.url ?? "",
+        url: `https://www.youtube.com/playlist?list=${playlist.id}`,
+        size: parseInt(playlist.video_count.toString()) || null
+    };
+}
+
+/**
+ * Parses a channel search result.
+ * @param channel The YouTube channel to parse.
+ */
+function parseChannel(channel: Channel): Artist {
+    return {
+        id: channel.id,
+        name: channel.author.name,
+        icon: channel.author.thumbnails[0]?.url ?? "",
+        url: `https://www.youtube.com/channel/${channel.id}`,
+        topTracks: [], albums: [], singles: []
+    };
+}
+
+/**
+ * Fetches a video's info.
+ * @param id The ID of the video.
+ */
+async function getInfo(id: string): Promise<VideoInfo> {
+    return await videos.fetch(id, () => youtube.getBasicInfo(id));
+}
+
+/**
+ * Fetches a video's data from its ID.
+ * @param id The ID of the video to fetch.
+ */
+export async function fetchTrack(id: string): Promise<Track | null> {
+    const { basic_info: info } = await getInfo(id);
+    if (!info.duration) return null;
+
+    return {
+        title: info.title,
+        artist: info.author,
+        icon: info.thumbnail[0]?.url ?? "",
+        url: `https://youtu.be/${id}`,
+        id, duration: info.duration
+    };
 }
 
 /**
  * Parses a YouTube Music search into a collection of tracks.
  * @param url The URL to parse.
  */
-export async function playlist(url: string): Promise<Playlist> {
-    const { items, info } = await youtube.getPlaylist(
-        utils.extractPlaylistId(url));
+export async function playlist(url: string, progress?: ImportProgress): Promise<Playlist> {
+    let page = await youtube.getPlaylist(utils.extractPlaylistId(url));
+    const info = page.info;
 
     // Create the playlist data.
     const playlist: Playlist = {
@@ -65,10 +187,28 @@ export async function playlist(url: string): Promise<Playlist> {
         tracks: []
     };
 
-    // Parse the playlist tracks.
-    for (const item of items) {
-        if (item instanceof PlaylistVideo)
-            playlist.tracks.push(await parseVideo(item));
+    // Track the import progress.
+    progress ??= { loaded: 0, total: null, skipped: [] };
+    progress.total = parseInt(info.total_items?.replace(/\D/g, "")) || null;
+
+    while (true) {
+        // Parse the playlist tracks.
+        for (const item of page.items) {
+            if (!(item instanceof PlaylistVideo)) continue;
+
+            // Skip private & deleted videos.
+            if (!item.is_playable || !item.duration?.seconds) {
+                progress.skipped.push({
+                    id: item.id, title: item.title.text ?? null,
+                    reason: "The video is unavailable."
+                });
+            } else playlist.tracks.push(parseVideo(item));
+        }
+        progress.loaded = playlist.tracks.length + progress.skipped.length;
+
+        // Check if there are more tracks.
+        if (!page.has_continuation) break;
+        page = await page.getContinuation();
     }
 
     return playlist;
@@ -97,96 +237,84 @@ export function extractId(url: string): string {
     return url.split("/")[3];
 }
 
+/**
+ * Extracts the video ID from a YouTube URL.
+ * Supports short links and watch pages.
+ * @param url The URL to resolve.
+ */
+export async function resolveUrl(url: string): Promise<string | null> {
+    const { hostname, pathname, searchParams } = new URL(url);
+    if (hostname == "youtu.be") return pathname.split("/")[1] || null;
+
+    return searchParams.get("v");
+}
+
 /**
  * Downloads the specified video.
- * Saves the video to the local system.
+ * Saves the video to the storage.
  * Returns the path to the file on the local system.
  * @param url The URL of the video to download.
+ * @param options The format to convert the video to.
+ * @param track (optional) The metadata to tag the file with.
  */
-export async function download(url: string): Promise<string> {
+export async function download(
+    url: string, options: OutputOptions = transcode.defaultOutput, track: Track | null = null
+): Promise<string> {
     const id: string = url.includes("http") ? extractId(url) : url;
+    const file = transcode.fileName(id, options);
 
-    // Save the file to the disk.
-    const filePath = `${constants.STORAGE_PATH}/${id}.mp3`;
+    return await storage.download(file, "YouTube", options.bitrate, async (filePath) => {
+        // Create a stream for the video.
+        const info = await getInfo(id);
+        const stream = await info.download(downloadOptions);
 
-    // Check if the file already exists.
-    if (existsSync(filePath)) {
-        return filePath; // Return the path to the file.
-    }
+        // Write the stream to a temporary file.
+        const temporary = `${filePath}.raw`;
+        const fileStream = createWriteStream(temporary);
+        for await (const chunk of streamToIterable(stream)) fileStream.write(chunk);
+        await new Promise((resolve) => fileStream.end(resolve));
 
-    // Create a stream for the video.
-    const stream = await youtube.download(id, {
-        type: "audio",
-        quality: "best",
-        format: "any"
-    });
+        // Use the video's metadata for the tags.
+        track = track ?? {
+            title: info.basic_info.title,
+            artist: info.basic_info.author,
+            icon: info.basic_info.thumbnail[0]?.url ?? "",
+            url: `https://youtu.be/${id}`,
+            id, duration: info.basic_info.duration
+        };
 
-    // Write the stream to a temporary file.
-    const temporary = `${filePath}.tmp`;
-    const fileStream = createWriteStream(temporary);
-    for await (const chunk of streamToIterable(stream)) fileStream.write(chunk);
-    fileStream.end();
-
-    // Convert the data with ffmpeg and pipe to the file.
-    const promise = new Promise<string>((resolve, reject) => {
-        ffmpeg(temporary)
-            .on("end", () => {
-                resolve(filePath);
-
-                // Delete the temporary file.
-                rmSync(temporary, { force: true });
-            })
-            .on("error", err => {
-                reject(err); console.error("Error: ", err);
-            })
-            .audioBitrate(128)
-            .audioFrequency(44100)
-            .audioChannels(2)
-            .save(filePath)
+        // Convert the data with ffmpeg.
+        await transcode.convert(temporary, filePath, options, track)
+            .finally(() => rmSync(temporary, { force: true }));
     });
-
-    // Return the path to the file.
-    await promise; return filePath;
 }
 
 /**
  * Streams the specified video.
  * Does not support MP3 conversion.
- * Requires a minimum and maximum byte range.
+ * Uses the downloaded file if it exists.
  * @param url The URL of the video to stream.
- * @param min The minimum byte range.
- * @param max The maximum byte range.
  * @param quality The quality of the stream.
  */
-export async function stream(
-    url: string, min: number, max: number, quality: string
-): Promise<{ buffer: Uint8Array, data: Format }> {
+export async function stream(url: string, quality: string): Promise<AudioSource> {
     const id: string = url.includes("http") ? extractId(url) : url;
-    const streamingData = await youtube.getStreamingData(id, downloadOptions);
 
-    // Download the video.
-    const options = {
+    // Check if the video has been downloaded.
+    const local = storage.source(`${id}.mp3`);
+    if (local) return local;
+
+    // Pick the format to stream.
+    const options: DownloadOptions = {
         ...downloadOptions,
-        quality: quality == "High" ? "best" : "bestefficiency",
-        range: {
-            start: min,
-            end: Math.min(max, streamingData.content_length)
-        }
+        quality: quality == "High" ? "best" : "bestefficiency"
     };
-    const stream = await youtube.download(id, options);
-
-    // Convert the stream to a buffer.
-    const chunks: Uint8Array[] = [];
-    for await (const chunk of streamToIterable(stream))
-        chunks.push(chunk);
+    const info = await getInfo(id);
+    const format = info.chooseFormat(options);
 
-    // Return the buffer.
     return {
-        data: streamingData,
-        buffer: chunks.reduce((a, b) => {
-            const c = new Uint8Array(a.length + b.length);
-            c.set(a); c.set(b, a.length);
-            return c;
-        }),
+        length: format.content_length,
+        mimeType: format.mime_type,
+        open: async (start, end) => Readable.from(streamToIterable(
+            await info.download({ ...options, range: { start, end } })))
     };
 }
\ No newline at end of file
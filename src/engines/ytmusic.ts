@@ -4,10 +4,23 @@ import { Innertube } from "youtubei.js";
 import Music from "youtubei.js/dist/src/core/Music";
 import Search from "youtubei.js/dist/src/parser/ytmusic/Search";
 import MusicResponsiveListItem from "youtubei.js/dist/src/parser/classes/MusicResponsiveListItem";
+import MusicTwoRowItem from "youtubei.js/dist/src/parser/classes/MusicTwoRowItem";
+import MusicShelf from "youtubei.js/dist/src/parser/classes/MusicShelf";
+import MusicCarouselShelf from "youtubei.js/dist/src/parser/classes/MusicCarouselShelf";
+import MusicImmersiveHeader from "youtubei.js/dist/src/parser/classes/MusicImmersiveHeader";
+import MusicVisualHeader from "youtubei.js/dist/src/parser/classes/MusicVisualHeader";
+import SearchSuggestion from "youtubei.js/dist/src/parser/classes/SearchSuggestion";
+import MusicInlineBadge from "youtubei.js/dist/src/parser/classes/MusicInlineBadge";
+import PlaylistPanelVideo from "youtubei.js/dist/src/parser/classes/PlaylistPanelVideo";
 
-import type { SearchResult, SearchResults } from "app/types";
+import type {
+    Album, Artist, AudioSource, ImportProgress, Lyrics, OutputOptions, Playlist,
+    PlaylistResult, SearchOptions, SearchResult, SearchResults, SearchType, Suggestions, Track
+} from "app/types";
 import { ObservedArray } from "youtubei.js/dist/src/parser/helpers";
 import * as utils from "app/utils";
+import * as cursors from "features/cursors";
+import * as youtube from "engines/youtube";
 
 let music: Music | null = null;
 Innertube.create().then((instance) => {
@@ -15,24 +28,325 @@ Innertube.create().then((instance) => {
     logger.info("Successfully authenticated with the YTMusic API.");
 });
 
+/* The YouTube Music search filter of each search type. */
+const searchTypes: { [key in SearchType]: "song" | "video" | "album" | "playlist" | "artist" } = {
+    songs: "song",
+    videos: "video",
+    albums: "album",
+    playlists: "playlist",
+    artists: "artist"
+};
+
 /**
  * Performs a YouTube Music search.
+ * Searches without a type include albums, songs & videos.
+ * @param query The query to search for.
+ * @param options The search options.
+ */
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    // Perform a YouTube music (basic) search.
+    if (!options.type && !options.page) return await searchAll(query);
+
+    // Continue from the previous page.
+    if (options.page) return await cursors.load<SearchResults>(options.page)
+        ?? { top: undefined, results: [], next: null };
+
+    return parseSearch(await music.search(
+        query, { type: searchTypes[options.type] }), options.type);
+}
+
+/**
+ * Parses a page of filtered search results.
+ * @param search The YouTube Music search to parse.
+ * @param type The type of results searched for.
+ */
+function parseSearch(search: Search, type: SearchType): SearchResults {
+    const items = (search.results ?? [])
+        .filter((item) => item instanceof MusicResponsiveListItem && item.id);
+    const data: SearchResults = {
+        top: undefined, results: [],
+        next: search.has_continuation ? cursors.save(async () =>
+            parseSearch(await search.getContinuation(), type)) : null
+    };
+
+    switch (type) {
+        case "albums":
+            data.albums = items.map((item) => parseAlbumItem(item));
+            break;
+        case "playlists":
+            data.playlists = items.map((item) => parsePlaylistItem(item));
+            break;
+        case "artists":
+            data.artists = items.map((item) => parseArtistItem(item));
+            break;
+        default:
+            data.results = items.map((item) => parseItem(item));
+            data.top = data.results[0];
+            break;
+    }
+
+    return data;
+}
+
+/**
+ * Fetches YouTube Music's completions of a partial query.
+ * @param query The partial query.
+ */
+export async function suggest(query: string): Promise<Suggestions> {
+    const suggestions = await music.getSearchSuggestions(query);
+
+    return {
+        queries: suggestions.filterType(SearchSuggestion)
+            .map((suggestion) => suggestion.suggestion.toString()),
+        tracks: [], artists: []
+    };
+}
+
+/**
+ * Performs a search across the album, song & video shelves.
+ * Later pages continue with the songs shelf.
  * @param query The query to search for.
  */
-export async function search(query: string): Promise<SearchResults> {
-    const search = await music.search(query); // Perform a YouTube music (basic) search.
-    const tracks = await parseTracks(search); // Parse the tracks into a collection of tracks.
+async function searchAll(query: string): Promise<SearchResults> {
+    const search = await music.search(query);
+    const { tracks, songs } = await parseTracks(search);
 
     // Return the top track and all tracks.
-    return { top: tracks[0], results: tracks.splice(0, 10) };
+    return {
+        top: tracks[0], results: tracks,
+        next: songs?.has_continuation ? cursors.save(async () =>
+            parseSearch(await songs.getContinuation(), "songs")) : null
+    };
+}
+
+/**
+ * Fetches a track's data from its ID.
+ * @param id The ID of the track to fetch.
+ */
+export async function fetchTrack(id: string): Promise<Track | null> {
+    const { basic_info: info } = await music.getInfo(id);
+    if (!info.duration) return null;
+
+    return {
+        title: info.title,
+        artist: info.author,
+        icon: info.thumbnail[0]?.url ?? "",
+        url: `https://youtu.be/${id}`,
+        id, duration: info.duration
+    };
+}
+
+/**
+ * Streams the specified track.
+ * YouTube Music tracks are streamed from YouTube.
+ * @param id The ID of the track to stream.
+ * @param quality The quality of the stream.
+ */
+export async function stream(id: string, quality: string): Promise<AudioSource> {
+    return await youtube.stream(id, quality);
+}
+
+/**
+ * Downloads the specified track.
+ * YouTube Music tracks are downloaded from YouTube.
+ * @param id The ID of the track to download.
+ * @param options The format to convert the track to.
+ */
+export async function download(id: string, options?: OutputOptions): Promise<string> {
+    return await youtube.download(id, options);
+}
+
+/**
+ * Extracts the track ID from a YouTube Music URL.
+ * @param url The URL to resolve.
+ */
+export async function resolveUrl(url: string): Promise<string | null> {
+    return await youtube.resolveUrl(url);
+}
+
+/**
+ * Creates a playlist from a YouTube Music playlist or album.
+ * Playlists are loaded from YouTube.
+ * @param url The playlist or album URL.
+ * @param progress (optional) The progress of the import.
+ */
+export async function playlist(url: string, progress?: ImportProgress): Promise<Playlist | null> {
+    const browseId = new URL(url).pathname.match(/^\/browse\/([\w-]+)/)?.[1];
+    if (!browseId) return await youtube.playlist(url, progress);
+
+    // Load the album.
+    const release = await album(browseId);
+    if (release == null) return null;
+
+    if (progress) {
+        progress.total = progress.loaded = release.tracks.length;
+    }
+
+    return {
+        owner: "", id: "",
+        name: release.name,
+        description: release.artist,
+        icon: release.icon,
+        isPrivate: false,
+        tracks: release.tracks
+    };
+}
+
+/**
+ * Fetches an album with its tracks.
+ * @param id The browse ID of the album.
+ */
+export async function album(id: string): Promise<Album | null> {
+    const album = await music.getAlbum(id);
+    const header = album.header;
+    if (!header) return null;
+
+    // Get album data.
+    const icon = header.thumbnails[0]?.url ?? "";
+    const artist = header.author?.name ?? "Unknown";
+
+    return {
+        id, icon, artist,
+        name: header.title.toString(),
+        artistId: header.author?.channel_id ?? null,
+        url: `https://music.youtube.com/browse/${id}`,
+        year: parseInt(header.year) || null,
+        tracks: album.contents
+            .filter((track) => track instanceof MusicResponsiveListItem)
+            .map((track) => parseItem(track, icon, artist))
+    };
+}
+
+/**
+ * Fetches an artist's page.
+ * @param id The channel ID of the artist.
+ */
+export async function artist(id: string): Promise<Artist | null> {
+    const artist = await music.getArtist(id);
+    const header = artist.header;
+    if (!header) return null;
+
+    // Get artist data.
+    const name = header.title?.toString() ?? "Unknown";
+    let icon = "";
+    if (header instanceof MusicImmersiveHeader)
+        icon = header.thumbnail?.contents[0]?.url ?? "";
+    else if (header instanceof MusicVisualHeader)
+        icon = header.thumbnails[0]?.url ?? "";
+
+    const result: Artist = {
+        id, name, icon,
+        url: `https://music.youtube.com/channel/${id}`,
+        topTracks: [], albums: [], singles: []
+    };
+
+    // Parse the sections of the page.
+    for (const section of artist.sections) {
+        if (section instanceof MusicShelf) {
+            // The shelf contains the top tracks.
+            result.topTracks = section.contents
+                .filter((track) => track instanceof MusicResponsiveListItem && track.id)
+                .map((track) => parseItem(track));
+        } else if (section instanceof MusicCarouselShelf) {
+            const albums = section.contents
+                .filter((item) => item instanceof MusicTwoRowItem && item.id)
+                .map((item) => parseRelease(<MusicTwoRowItem> item, result));
+
+            switch (section.header?.title.toString()) {
+                case "Albums": result.albums = albums; break;
+                case "Singles": result.singles = albums; break;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parses an album listed on an artist's page.
+ * @param item The item to parse.
+ * @param artist The artist the album is listed on.
+ */
+function parseRelease(item: MusicTwoRowItem, artist: Artist): Album {
+    return {
+        id: item.id,
+        name: item.title.toString(),
+        artist: artist.name,
+        artistId: artist.id,
+        icon: item.thumbnail[0]?.url ?? "",
+        url: `https://music.youtube.com/browse/${item.id}`,
+        year: parseInt(item.year) || null,
+        tracks: []
+    };
+}
+
+/**
+ * Fetches the tracks YouTube Music plays after a track.
+ * Uses the automix of the track.
+ * @param id The ID of the track.
+ */
+export async function upNext(id: string): Promise<SearchResult[]> {
+    const panel = await music.getUpNext(id, true);
+    if (!panel) return [];
+
+    return panel.contents
+        .filter((item) => item instanceof PlaylistPanelVideo &&
+            item.video_id && item.video_id != id)
+        .map((item) => parsePanelVideo(<PlaylistPanelVideo> item));
+}
+
+/**
+ * Parses an up next item into a search result.
+ * @param video The item to parse.
+ */
+function parsePanelVideo(video: PlaylistPanelVideo): SearchResult {
+    const names = video.artists?.map((artist) => artist.name);
+
+    return {
+        title: video.title.toString(),
+        artist: names?.join(", ") || video.author,
+        icon: video.thumbnail[0]?.url ?? "",
+        url: `https://youtu.be/${video.video_id}`,
+        id: video.video_id,
+        duration: video.duration?.seconds ?? 0,
+
+        album: video.album?.name,
+        artists: names?.length ? names : undefined,
+        year: parseInt(video.album?.year) || undefined
+    };
+}
+
+/**
+ * Fetches the lyrics of a track.
+ * YouTube Music only provides plain lyrics.
+ * @param track The track to fetch the lyrics of.
+ */
+export async function lyrics(track: Track): Promise<Lyrics | null> {
+    // Check if the track is from YouTube.
+    if (utils.identifyId(track.id) != "YouTube") return null;
+
+    // Fetch the lyrics. (throws if there are none)
+    let shelf;
+    try { shelf = await music.getLyrics(track.id); } catch { return null; }
+
+    const plain = shelf?.description?.text;
+    if (!plain) return null;
+
+    return {
+        id: track.id,
+        synced: false,
+        lines: [],
+        plain,
+        source: "YouTube Music"
+    };
 }
 
 /**
  * Parses a YouTube Music search into a collection of tracks.
  * @param search The search to parse.
- * @return Parsed search results.
+ * @return Parsed search results & the songs shelf.
  */
-async function parseTracks(search: Search): Promise<SearchResult[]> {
+async function parseTracks(search: Search): Promise<{ tracks: SearchResult[], songs: Search | null }> {
     // Extract different search results.
     // These are sorted from high -> low priority.
     let albums, songs, videos;
@@ -47,7 +361,10 @@ async function parseTracks(search: Search): Promise<SearchResult[]> {
     if (videos) videoTracks = await parseShelf(videos.results);
 
     // Merge all tracks into a single collection.
-    return [...albumTracks, ...songTracks, ...videoTracks];
+    return {
+        tracks: [...albumTracks, ...songTracks, ...videoTracks],
+        songs: songs ?? null
+    };
 }
 
 /**
@@ -88,6 +405,57 @@ async function parseShelf(shelf: ObservedArray<MusicResponsiveListItem>): Promis
     return results;
 }
 
+/**
+ * Parses an album search result.
+ * @param item The item to parse.
+ */
+function parseAlbumItem(item: MusicResponsiveListItem): Album {
+    const artist = item.author ?? item.artists?.[0];
+
+    return {
+        id: item.id,
+        name: item.title ?? item.name ?? "",
+        artist: artist?.name ?? "Unknown",
+        artistId: artist?.channel_id ?? null,
+        icon: item.thumbnails[0]?.url ?? "",
+        url: `https://music.youtube.com/browse/${item.id}`,
+        year: parseInt(item.year) || null,
+        tracks: []
+    };
+}
+
+/**
+ * Parses a playlist search result.
+ * @param item The item to parse.
+ */
+function parsePlaylistItem(item: MusicResponsiveListItem): PlaylistResult {
+    // Playlists are browsed with a prefixed ID.
+    const id = item.id.startsWith("VL") ? item.id.substring(2) : item.id;
+
+    return {
+        id,
+        name: item.title ?? item.name ?? "",
+        owner: item.author?.name ?? "",
+        icon: item.thumbnails[0]?.url ?? "",
+        url: `https://music.youtube.com/playlist?list=${id}`,
+        size: parseInt(item.item_count) || null
+    };
+}
+
+/**
+ * Parses an artist search result.
+ * @param item The item to parse.
+ */
+function parseArtistItem(item: MusicResponsiveListItem): Artist {
+    return {
+        id: item.id,
+        name: item.name ?? item.title ?? "",
+        icon: item.thumbnails[0]?.url ?? "",
+        url: `https://music.youtube.com/channel/${item.id}`,
+        topTracks: [], albums: [], singles: []
+    };
+}
+
 /**
  * Parses an item into a search result.
  * @param item The item to parse.
@@ -100,6 +468,7 @@ function parseItem(
     artist: string | null = null
 ): SearchResult {
     let artists = artist ?? "";
+    const names = item.artists?.map((artist) => artist.name);
 
     // Check the artists type.
     if (item.artists) {
@@ -117,6 +486,12 @@ function parseItem(
         icon: icon ?? item.thumbnails[0].url,
         url: "https://youtu.be/" + item.id,
         id: item.id,
-        duration: item.duration.seconds
+        duration: item.duration?.seconds ?? 0,
+
+        album: item.album?.name,
+        artists: names?.length ? names : undefined,
+        year: parseInt(item.year) || undefined,
+        explicit: item.badges?.some((badge) =>
+            badge instanceof MusicInlineBadge && badge.icon_type == "MUSIC_EXPLICIT_BADGE")
     };
 }
@@ -0,0 +1,22 @@
+/* Imports. */
+import { isSkip } from "features/history";
+
+jest.mock("app/index", () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+jest.mock("discord.js", () => ({ EmbedBuilder: jest.fn(), WebhookClient: jest.fn() }));
+jest.mock("features/database", () => ({}));
+
+describe("isSkip", () => {
+    it("skips plays which end early", () => {
+        expect(isSkip(30, 200)).toBe(true);
+        expect(isSkip(170, 200)).toBe(true);
+    });
+
+    it("counts plays which reach the end", () => {
+        expect(isSkip(180, 200)).toBe(false);
+        expect(isSkip(200, 200)).toBe(false);
+    });
+
+    it("never skips tracks without a duration", () => {
+        expect(isSkip(0, 0)).toBe(false);
+    });
+});
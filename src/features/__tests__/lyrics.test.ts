@@ -0,0 +1,73 @@
+/* Imports. */
+import type { Lyrics, Track } from "app/types";
+import { getLyrics } from "features/lyrics";
+import * as database from "features/database";
+import * as lrclib from "engines/lrclib";
+import * as ytmusic from "engines/ytmusic";
+
+jest.mock("app/index", () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+jest.mock("discord.js", () => ({ EmbedBuilder: jest.fn(), WebhookClient: jest.fn() }));
+jest.mock("features/database", () => ({ getLyrics: jest.fn(), saveLyrics: jest.fn() }));
+jest.mock("engines/registry", () => ({ resolve: jest.fn() }));
+jest.mock("engines/lrclib", () => ({ lyrics: jest.fn() }));
+jest.mock("engines/ytmusic", () => ({ lyrics: jest.fn() }));
+
+const track = <Track>{
+    id: "4cOdK2wGLETKBW3PvgPWqT",
+    title: "Never Gonna Give You Up",
+    artist: "Rick Astley",
+    duration: 213,
+    icon: "",
+    url: ""
+};
+
+const plain: Lyrics = {
+    id: track.id,
+    synced: false,
+    lines: [],
+    plain: "We're no strangers to love",
+    source: "LRCLIB"
+};
+const synced: Lyrics = {
+    ...plain,
+    synced: true,
+    source: "YouTube Music",
+    lines: [{ time: 0, text: "We're no strangers to love" }]
+};
+
+describe("getLyrics", () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        (database.getLyrics as jest.Mock).mockResolvedValue(null);
+    });
+
+    it("keeps plain lyrics when a later provider finds none", async () => {
+        (lrclib.lyrics as jest.Mock).mockResolvedValue(plain);
+        (ytmusic.lyrics as jest.Mock).mockResolvedValue(null);
+
+        expect(await getLyrics(track.id, track)).toEqual(plain);
+        expect(database.saveLyrics).toHaveBeenCalledWith(expect.objectContaining(plain));
+    });
+
+    it("keeps plain lyrics when a later provider fails", async () => {
+        (lrclib.lyrics as jest.Mock).mockResolvedValue(plain);
+        (ytmusic.lyrics as jest.Mock).mockRejectedValue(new Error("Unavailable"));
+
+        expect(await getLyrics(track.id, track)).toEqual(plain);
+    });
+
+    it("prefers synced lyrics from a later provider", async () => {
+        (lrclib.lyrics as jest.Mock).mockResolvedValue(plain);
+        (ytmusic.lyrics as jest.Mock).mockResolvedValue(synced);
+
+        expect(await getLyrics(track.id, track)).toEqual(synced);
+    });
+
+    it("returns null when no provider has lyrics", async () => {
+        (lrclib.lyrics as jest.Mock).mockResolvedValue(null);
+        (ytmusic.lyrics as jest.Mock).mockResolvedValue(null);
+
+        expect(await getLyrics(track.id, track)).toBeNull();
+        expect(database.saveLyrics).not.toHaveBeenCalled();
+    });
+});
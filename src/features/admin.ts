@@ -0,0 +1,123 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import { getToken } from "app/utils";
+import * as storage from "features/storage";
+import * as cache from "features/cache";
+
+import * as registry from "engines/registry";
+
+/**
+ * Checks if the request is from an administrator.
+ * @param req The HTTP request.
+ */
+function isAdmin(req: Request): boolean {
+    const token = getToken(req);
+    return constants.ADMIN_TOKEN != "" && token == constants.ADMIN_TOKEN;
+}
+
+/**
+ * Lists all cached tracks.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function listCache(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    if (!isAdmin(req)) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Send the cached tracks.
+    rsp.status(200).send(
+        constants.SUCCESS({
+            size: storage.totalSize(),
+            maxSize: constants.STORAGE_MAX_SIZE * 1024 * 1024,
+            tracks: storage.list()
+        })
+    );
+}
+
+/**
+ * Lists the statistics of the lookup caches.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function listLookups(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    if (!isAdmin(req)) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ caches: cache.stats() }));
+}
+
+/**
+ * Removes cached tracks.
+ * Removes all tracks if no ID is provided.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function purgeCache(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    if (!isAdmin(req)) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const id: string = <string>req.params.id || null;
+
+    // Remove the tracks.
+    const removed = await storage.purge(id);
+    rsp.status(200).send(constants.SUCCESS({ removed }));
+}
+
+/**
+ * Downloads tracks into the cache.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function warmCache(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    if (!isAdmin(req)) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const ids: string[] = req.body.ids;
+    // Validate arguments.
+    if (!Array.isArray(ids) || ids.some((id) => typeof id != "string")) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Download the tracks in the background.
+    for (const id of ids) {
+        registry
+            .resolve(id)
+            .then((resolved) => resolved?.engine.download?.(resolved.id))
+            .catch((err) => logger.warn(err));
+    }
+
+    rsp.status(202).send(constants.SUCCESS());
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/admin/cache", listCache);
+app.post("/admin/cache", warmCache);
+app.delete("/admin/cache", purgeCache);
+app.delete("/admin/cache/:id", purgeCache);
+app.get("/admin/lookups", listLookups);
+
+/* Export the router. */
+export default app;
@@ -0,0 +1,90 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { Album, Artist } from "app/types";
+import { identifyBrowseId } from "app/utils";
+import * as registry from "engines/registry";
+
+/**
+ * Fetches an album with its tracks.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchAlbum(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const engine: string = <string>req.query.engine || identifyBrowseId(id);
+
+    // Validate arguments.
+    const source = registry.get(engine);
+    if (id == "" || !source?.album) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the album.
+    let album: Album | null = null;
+    try {
+        album = await source.album(id);
+    } catch (error) {
+        logger.debug(`Failed to fetch album ${id}.`, error);
+    }
+
+    // Check if the album was found.
+    if (album == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Send the album.
+    rsp.status(200).send(constants.SUCCESS({ album }));
+}
+
+/**
+ * Fetches an artist's page.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchArtist(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const engine: string = <string>req.query.engine || identifyBrowseId(id);
+
+    // Validate arguments.
+    const source = registry.get(engine);
+    if (id == "" || !source?.artist) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the artist.
+    let artist: Artist | null = null;
+    try {
+        artist = await source.artist(id);
+    } catch (error) {
+        logger.debug(`Failed to fetch artist ${id}.`, error);
+    }
+
+    // Check if the artist was found.
+    if (artist == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Send the artist.
+    rsp.status(200).send(constants.SUCCESS({ artist }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/album/:id", fetchAlbum);
+app.get("/artist/:id", fetchArtist);
+
+/* Export the router. */
+export default app;
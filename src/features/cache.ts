@@ -0,0 +1,161 @@
+// This file provides bounded, expiring caches for engine lookups.
+// Persistent caches are backed by the database to survive restarts.
+
+/* Imports. */
+import { logger } from "app/index";
+import type { CacheStats } from "app/types";
+import * as database from "features/database";
+
+const caches: Cache<any>[] = []; // All created caches.
+
+/**
+ * Returns the statistics of all caches.
+ */
+export function stats(): CacheStats[] {
+    return caches.map((cache) => cache.stats());
+}
+
+/**
+ * A cache which keeps the most recently used values.
+ * Values expire after a set lifetime.
+ */
+export class Cache<T> {
+    private readonly entries = new Map<string, { value: T; expires: number }>();
+    private readonly pending: { [key: string]: Promise<T | null> } = {};
+
+    private hits: number = 0;
+    private misses: number = 0;
+
+    /**
+     * @param name The name of the cache. Used as the database namespace.
+     * @param lifetime How long values are kept for, in milliseconds.
+     * @param maxSize The maximum number of values kept in memory.
+     * @param persist Whether values are saved to the database.
+     */
+    constructor(
+        public readonly name: string,
+        private readonly lifetime: number,
+        private readonly maxSize: number,
+        private readonly persist: boolean = false
+    ) {
+        caches.push(this);
+    }
+
+    /**
+     * Returns a cached value.
+     * Checks the database if the value is not in memory.
+     * @param key The key of the value.
+     * @return The value, or null if it is not cached.
+     */
+    async get(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (entry && entry.expires > Date.now()) {
+            // Mark the value as recently used.
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+
+            this.hits++;
+            return entry.value;
+        }
+        this.entries.delete(key);
+
+        // Check the database for the value.
+        if (this.persist) {
+            try {
+                const stored = await database.getCacheEntry(this.name, key);
+                if (stored) {
+                    this.remember(key, stored.value, stored.expires);
+                    this.hits++;
+                    return stored.value;
+                }
+            } catch (error) {
+                logger.debug(`Failed to read ${key} from the ${this.name} cache.`, error);
+            }
+        }
+
+        this.misses++;
+        return null;
+    }
+
+    /**
+     * Caches a value.
+     * @param key The key of the value.
+     * @param value The value to cache.
+     */
+    set(key: string, value: T): void {
+        const expires = Date.now() + this.lifetime;
+        this.remember(key, value, expires);
+
+        // Save the value to the database.
+        this.persist &&
+            database
+                .saveCacheEntry(this.name, key, value, expires)
+                .catch((err) => logger.debug(`Failed to save ${key} to the ${this.name} cache.`, err));
+    }
+
+    /**
+     * Removes a value from the cache.
+     * @param key The key of the value.
+     */
+    delete(key: string): void {
+        this.entries.delete(key);
+
+        this.persist &&
+            database
+                .deleteCacheEntry(this.name, key)
+                .catch((err) => logger.debug(`Failed to delete ${key} from the ${this.name} cache.`, err));
+    }
+
+    /**
+     * Returns a cached value, or fetches it if it is not cached.
+     * Concurrent fetches of the same key share one fetch.
+     * Null values are not cached.
+     * @param key The key of the value.
+     * @param fetch Fetches the value.
+     */
+    async fetch(key: string, fetch: () => Promise<T | null>): Promise<T | null> {
+        const cached = await this.get(key);
+        if (cached != null) return cached;
+        // Check if the value is being fetched.
+        if (this.pending[key]) return await this.pending[key];
+
+        try {
+            const value = await (this.pending[key] = fetch());
+            if (value != null) this.set(key, value);
+            return value;
+        } finally {
+            delete this.pending[key];
+        }
+    }
+
+    /**
+     * Returns the statistics of the cache.
+     */
+    stats(): CacheStats {
+        return {
+            name: this.name,
+            size: this.entries.size,
+            maxSize: this.maxSize,
+            hits: this.hits,
+            misses: this.misses,
+            persistent: this.persist
+        };
+    }
+
+    /**
+     * Keeps a value in memory.
+     * Removes the least recently used values if the cache is full.
+     * @param key The key of the value.
+     * @param value The value to keep.
+     * @param expires The time the value expires at.
+     */
+    private remember(key: string, value: T, expires: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expires });
+
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.maxSize) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
@@ -0,0 +1,47 @@
+// This file keeps paging state between requests.
+// Clients receive a token which points to the loader of their next page.
+
+/* Imports. */
+import { randomString } from "app/utils";
+import { Cache } from "features/cache";
+
+/**
+ * The state of a cursor.
+ * @param next Loads the next page.
+ * @param page The next page, once it is loaded.
+ */
+type Cursor = {
+    next: () => Promise<any>;
+    page: Promise<any> | null;
+};
+
+// Cursors by token. The least recently used are removed first.
+const cursors = new Cache<Cursor>("cursors", 30 * 60e3, 5000);
+
+/**
+ * Stores the loader of the next page.
+ * @param next Loads the next page.
+ * @return The token of the cursor.
+ */
+export function save<T>(next: () => Promise<T>): string {
+    const token = randomString(24);
+    cursors.set(token, { next, page: null });
+    return token;
+}
+
+/**
+ * Loads the page of a cursor.
+ * Each page is only loaded once.
+ * @param token The token of the cursor.
+ * @return The page, or null if the cursor expired.
+ */
+export async function load<T>(token: string): Promise<T | null> {
+    const cursor = await cursors.get(token);
+    if (!cursor) return null;
+
+    // Allow the page to be retried if it fails.
+    return await (cursor.page ??= cursor.next().catch((error) => {
+        cursor.page = null;
+        throw error;
+    }));
+}
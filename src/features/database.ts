@@ -6,9 +6,12 @@ import { logger } from "app/index";
 import constants from "app/constants";
 
 import { Mongoose, Schema, Model, connect } from "mongoose";
-import { Playlist, User } from "app/types";
+import {
+    ArtistStats, FavoritesQuery, ListenSession, Lyrics, Play, Playlist,
+    PlayerState, Recap, SharedRecap, Track, TrackMatch, TrackStats, User
+} from "app/types";
 
-import { randomString } from "app/utils";
+import { randomString, sanitize } from "app/utils";
 
 let database: Mongoose | null = null;
 
@@ -22,6 +25,15 @@ connect(constants.MONGODB_URI, constants.MONGODB_CONFIG)
         // Set constants.
         PlaylistModel = database.model("Playlist", PlaylistSchema);
         UserModel = database.model("User", UserSchema);
+        PlayerStateModel = database.model("PlayerState", PlayerStateSchema);
+        LyricsModel = database.model("Lyrics", LyricsSchema);
+        CacheEntryModel = database.model("CacheEntry", CacheEntrySchema);
+        MatchModel = database.model("Match", MatchSchema);
+        FavoriteModel = database.model("Favorite", FavoriteSchema);
+        PlayModel = database.model("Play", PlaySchema);
+        SessionModel = database.model("Session", SessionSchema);
+        RecapModel = database.model("Recap", RecapSchema);
+        SharedRecapModel = database.model("SharedRecap", SharedRecapSchema);
 
         // Create collections.
         PlaylistModel.createCollection().then(() => {
@@ -30,6 +42,33 @@ connect(constants.MONGODB_URI, constants.MONGODB_CONFIG)
         UserModel.createCollection().then(() => {
             logger.debug("Created the user collection.");
         });
+        PlayerStateModel.createCollection().then(() => {
+            logger.debug("Created the player state collection.");
+        });
+        LyricsModel.createCollection().then(() => {
+            logger.debug("Created the lyrics collection.");
+        });
+        CacheEntryModel.createCollection().then(() => {
+            logger.debug("Created the cache collection.");
+        });
+        MatchModel.createCollection().then(() => {
+            logger.debug("Created the match collection.");
+        });
+        FavoriteModel.createCollection().then(() => {
+            logger.debug("Created the favorites collection.");
+        });
+        PlayModel.createCollection().then(() => {
+            logger.debug("Created the history collection.");
+        });
+        SessionModel.createCollection().then(() => {
+            logger.debug("Created the session collection.");
+        });
+        RecapModel.createCollection().then(() => {
+            logger.debug("Created the recap collection.");
+        });
+        SharedRecapModel.createCollection().then(() => {
+            logger.debug("Created the shared recap collection.");
+        });
     })
     .catch(console.error);
 
@@ -40,12 +79,17 @@ export const PlaylistSchema = new Schema({
     description: String,
     icon: String,
     isPrivate: Boolean,
-    tracks: Array
+    tracks: Array,
+    collaborators: Array, // List of invited users & their roles.
+    changes: Array, // List of recent changes.
+    version: Number, // Increased on every change.
+    source: Object // The source of imported playlists.
 });
 export const UserSchema = new Schema({
     playlists: Array, // List of playlist IDs.
     likedSongs: Array, // List of track objects.
     recentlyPlayed: Array, // List of track objects.
+    followedArtists: Array, // List of followed artists.
 
     accessToken: String, // The user's client access token.
     authCode: String, // The user's active authorization code.
@@ -65,8 +109,107 @@ export const UserSchema = new Schema({
     presenceToken: String, // The user's presence token.
 });
 
+export const PlayerStateSchema = new Schema({
+    userId: String, // The user the state belongs to.
+    track: Object, // The track being played.
+    queue: Array, // List of upcoming track objects.
+    history: Array, // List of played track objects.
+    shuffle: Boolean, // Is the queue shuffled?
+    repeat: String, // The repeat mode.
+    progress: Number, // The track progress in seconds.
+    paused: Boolean, // Is the player paused?
+    device: String // The ID of the playing client.
+});
+
+export const LyricsSchema = new Schema({
+    id: String, // The ID of the track.
+    synced: Boolean, // Do the lines have timestamps?
+    lines: Array, // List of timestamped lines.
+    plain: String, // The lyrics without timestamps.
+    source: String, // The provider of the lyrics.
+    submittedBy: String, // The user who submitted the lyrics.
+    fetchedAt: Number // When the providers were last asked.
+});
+
+export const CacheEntrySchema = new Schema({
+    cache: String, // The name of the cache.
+    key: String, // The key of the value.
+    value: Object, // The cached value.
+    expires: { type: Date, expires: 0 } // The time the value expires at.
+});
+CacheEntrySchema.index({ cache: 1, key: 1 });
+
+export const MatchSchema = new Schema({
+    isrc: String, // The ISRC of the track.
+    videoId: String, // The ID of the matching YouTube video.
+    confidence: Number, // How closely the video matches. (0 -> 1)
+    source: String, // How the match was made.
+    reports: Array, // List of user IDs who reported the match.
+    rejected: Array, // List of video IDs reported as wrong.
+    submittedBy: String, // The user who submitted the match.
+    suggestions: Array // List of videos submitted by users & who submitted them.
+});
+
+export const FavoriteSchema = new Schema({
+    userId: String, // The user who liked the track.
+    trackId: String, // The ID of the liked track.
+    track: Object, // The liked track.
+    addedAt: Number // The time the track was liked.
+});
+FavoriteSchema.index({ userId: 1, trackId: 1 }, { unique: true });
+FavoriteSchema.index({ userId: 1, addedAt: -1 });
+
+export const PlaySchema = new Schema({
+    userId: String, // The user who played the track.
+    track: Object, // The played track.
+    startedAt: Number, // The time the track started playing.
+    listened: Number, // How long the track was listened to, in milliseconds.
+    device: String, // The ID of the client which played the track.
+    skipped: Boolean // Was the track stopped before it ended?
+});
+PlaySchema.index({ userId: 1, startedAt: -1 });
+
+export const SessionSchema = new Schema({
+    userId: String, // The user who listened along.
+    hostId: String, // The user who was listened to.
+    roomId: String, // The ID of the room joined.
+    joinedAt: Number // The time the user joined.
+});
+SessionSchema.index({ userId: 1, joinedAt: 1 });
+
+export const RecapSchema = new Schema({
+    userId: String, // The user the recap belongs to.
+    year: Number, // The year the recap covers.
+    generatedAt: Number, // The time the recap was generated.
+    topTracks: Array, // List of the most played tracks.
+    topArtists: Array, // List of the most played artists.
+    minutes: Number, // The minutes listened in the year.
+    topMonth: Number, // The month with the most plays.
+    firstTrack: Object, // The first track played in the year.
+    sessions: Number, // The number of listen along sessions.
+    shareId: String // The ID of the public snapshot.
+});
+RecapSchema.index({ userId: 1, year: 1 }, { unique: true });
+
+export const SharedRecapSchema = new Schema({
+    shareId: String, // The ID of the snapshot.
+    sharedAt: Number, // The time the recap was shared.
+    socialStatus: String, // Who can view the snapshot.
+    recap: Object // The recap as it was when shared.
+});
+SharedRecapSchema.index({ shareId: 1 }, { unique: true });
+
 export let PlaylistModel: Model<any> = undefined;
 export let UserModel: Model<any> = undefined;
+export let PlayerStateModel: Model<any> = undefined;
+export let LyricsModel: Model<any> = undefined;
+export let CacheEntryModel: Model<any> = undefined;
+export let MatchModel: Model<any> = undefined;
+export let FavoriteModel: Model<any> = undefined;
+export let PlayModel: Model<any> = undefined;
+export let SessionModel: Model<any> = undefined;
+export let RecapModel: Model<any> = undefined;
+export let SharedRecapModel: Model<any> = undefined;
 
 /*
  * Database methods.
@@ -93,9 +236,34 @@ export async function getPlaylist(id: string): Promise<Playlist | null> {
 /**
  * Updates the playlist in the database.
  * @param playlist The playlist to update.
+ * @param version (optional) The version the stored playlist must have.
+ * @return Whether the playlist was updated.
+ */
+export async function updatePlaylist(playlist: Playlist, version?: number | null): Promise<boolean> {
+    const filter = version === undefined ?
+        { id: playlist.id } : { id: playlist.id, version };
+    const result = await PlaylistModel.updateOne(filter, playlist);
+    return result.matchedCount > 0;
+}
+
+/**
+ * Retrieves the playlists which are synced with their source.
+ */
+export async function getSyncedPlaylists(): Promise<Playlist[]> {
+    const results = await PlaylistModel.find({ "source.autoSync": true }).exec();
+    return results.map((playlist) => playlist.toObject());
+}
+
+/**
+ * Retrieves the public playlists of users.
+ * The most recently changed playlists are first.
+ * @param owners The IDs of the users.
+ * @param limit The maximum number of playlists to return.
  */
-export async function updatePlaylist(playlist: Playlist): Promise<void> {
-    await PlaylistModel.updateOne({ id: playlist.id }, playlist);
+export async function getPublicPlaylists(owners: string[], limit: number): Promise<Playlist[]> {
+    const results = await PlaylistModel.find({ owner: { $in: owners }, isPrivate: false })
+        .sort({ _id: -1 }).limit(limit).exec();
+    return results.map((playlist) => playlist.toObject());
 }
 
 /**
@@ -140,6 +308,384 @@ export async function deleteUser(userId: string): Promise<void> {
     await UserModel.deleteOne({ userId });
 }
 
+/**
+ * Retrieves the user's player state from the database.
+ * @param userId The ID of the user.
+ */
+export async function getPlayerState(userId: string): Promise<PlayerState | null> {
+    const result = PlayerStateModel.findOne({ userId });
+    const state = await result.exec();
+    return state ? <PlayerState> sanitize(state.toObject(), ["userId"]) : null;
+}
+
+/**
+ * Saves the user's player state to the database.
+ * @param userId The ID of the user.
+ * @param state The player state to save.
+ */
+export async function updatePlayerState(userId: string, state: PlayerState): Promise<void> {
+    await PlayerStateModel.updateOne({ userId }, { ...state, userId }, { upsert: true }).exec();
+}
+
+/**
+ * Retrieves the lyrics of a track from the database.
+ * @param id The ID of the track.
+ */
+export async function getLyrics(id: string): Promise<Lyrics | null> {
+    const result = LyricsModel.findOne({ id });
+    const lyrics = await result.exec();
+    return lyrics ? <Lyrics> sanitize(lyrics.toObject()) : null;
+}
+
+/**
+ * Saves the lyrics of a track to the database.
+ * Replaces any existing lyrics.
+ * @param lyrics The lyrics to save.
+ */
+export async function saveLyrics(lyrics: Lyrics): Promise<void> {
+    await LyricsModel.updateOne({ id: lyrics.id }, lyrics, { upsert: true }).exec();
+}
+
+/**
+ * Retrieves the YouTube match of a track from the database.
+ * @param isrc The ISRC of the track.
+ */
+export async function getMatch(isrc: string): Promise<TrackMatch | null> {
+    const result = MatchModel.findOne({ isrc });
+    const match = await result.exec();
+    return match ? <TrackMatch> sanitize(match.toObject()) : null;
+}
+
+/**
+ * Saves the YouTube match of a track to the database.
+ * Replaces any existing match.
+ * @param match The match to save.
+ */
+export async function saveMatch(match: TrackMatch): Promise<void> {
+    await MatchModel.updateOne({ isrc: match.isrc }, match, { upsert: true }).exec();
+}
+
+/**
+ * Retrieves a page of a user's liked tracks.
+ * @param userId The ID of the user.
+ * @param query Which tracks to fetch.
+ * @return The tracks & the number of tracks matching the search.
+ */
+export async function getFavorites(userId: string, query: FavoritesQuery): Promise<{ tracks: Track[], total: number }> {
+    const filter: any = { userId };
+    // Search the titles & artists.
+    if (query.search) {
+        const search = new RegExp(query.search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+        filter.$or = [{ "track.title": search }, { "track.artist": search }];
+    }
+
+    const field = query.sort == "added" ? "addedAt" : `track.${query.sort}`;
+    const [results, total] = await Promise.all([
+        FavoriteModel.find(filter)
+            .sort({ [field]: query.descending ? -1 : 1, _id: 1 })
+            .skip(query.offset).limit(query.limit).exec(),
+        FavoriteModel.countDocuments(filter).exec()
+    ]);
+
+    return {
+        tracks: results.map((result) => ({ ...result.track, addedAt: result.addedAt })),
+        total
+    };
+}
+
+/**
+ * Counts a user's liked tracks.
+ * @param userId The ID of the user.
+ */
+export async function countFavorites(userId: string): Promise<number> {
+    return await FavoriteModel.countDocuments({ userId }).exec();
+}
+
+/**
+ * Adds tracks to a user's liked tracks.
+ * Tracks which are already liked are ignored.
+ * @param userId The ID of the user.
+ * @param tracks The tracks to add.
+ * @return The tracks which were added.
+ */
+export async function addFavorites(userId: string, tracks: Track[]): Promise<Track[]> {
+    const added: Track[] = [];
+    for (const { addedAt = Date.now(), ...track } of tracks) {
+        const result = await FavoriteModel.updateOne(
+            { userId, trackId: track.id },
+            { $setOnInsert: { track, addedAt } },
+            { upsert: true }).exec();
+        if (result.upsertedCount > 0) added.push({ ...track, addedAt });
+    }
+
+    return added;
+}
+
+/**
+ * Removes tracks from a user's liked tracks.
+ * @param userId The ID of the user.
+ * @param ids The IDs of the tracks to remove.
+ * @return The tracks which were removed.
+ */
+export async function removeFavorites(userId: string, ids: string[]): Promise<Track[]> {
+    const found = await FavoriteModel.find({ userId, trackId: { $in: ids } }).exec();
+    await FavoriteModel.deleteMany({ userId, trackId: { $in: ids } }).exec();
+
+    return found.map((favorite) => favorite.track);
+}
+
+/**
+ * Saves a play to the user's listening history.
+ * @param play The play to save.
+ */
+export async function savePlay(play: Play): Promise<void> {
+    await PlayModel.create(play);
+}
+
+/**
+ * Retrieves a page of the user's listening history.
+ * The most recent plays are first.
+ * @param userId The ID of the user.
+ * @param offset The number of plays to skip.
+ * @param limit The maximum number of plays to return.
+ */
+export async function getHistory(userId: string, offset: number, limit: number): Promise<{ plays: Play[], total: number }> {
+    const [results, total] = await Promise.all([
+        PlayModel.find({ userId }).sort({ startedAt: -1 })
+            .skip(offset).limit(limit).exec(),
+        PlayModel.countDocuments({ userId }).exec()
+    ]);
+
+    return { plays: results.map((play) => <Play> sanitize(play.toObject())), total };
+}
+
+/**
+ * Creates a query for the plays of a user in a time range.
+ * @param userId The ID of the user.
+ * @param since The start of the range.
+ * @param until (optional) The end of the range.
+ */
+function playsBetween(userId: string, since: number, until?: number): object {
+    return {
+        userId, startedAt: until == undefined ?
+            { $gte: since } : { $gte: since, $lt: until }
+    };
+}
+
+/**
+ * Retrieves the most played tracks of a user.
+ * @param userId The ID of the user.
+ * @param since Only plays after this time are counted.
+ * @param until (optional) Only plays before this time are counted.
+ * @param limit The maximum number of tracks to return.
+ */
+export async function getTopTracks(userId: string, since: number, limit: number, until?: number): Promise<TrackStats[]> {
+    return await PlayModel.aggregate([
+        { $match: playsBetween(userId, since, until) },
+        { $group: {
+            _id: "$track.id", track: { $last: "$track" },
+            plays: { $sum: 1 }, listened: { $sum: "$listened" }
+        } },
+        { $sort: { plays: -1, listened: -1 } },
+        { $limit: limit },
+        { $project: { _id: 0, track: 1, plays: 1, listened: 1 } }
+    ]).exec();
+}
+
+/**
+ * Retrieves the most played artists of a user.
+ * @param userId The ID of the user.
+ * @param since Only plays after this time are counted.
+ * @param until (optional) Only plays before this time are counted.
+ * @param limit The maximum number of artists to return.
+ */
+export async function getTopArtists(userId: string, since: number, limit: number, until?: number): Promise<ArtistStats[]> {
+    return await PlayModel.aggregate([
+        { $match: playsBetween(userId, since, until) },
+        { $group: {
+            _id: "$track.artist",
+            plays: { $sum: 1 }, listened: { $sum: "$listened" }
+        } },
+        { $sort: { plays: -1, listened: -1 } },
+        { $limit: limit },
+        { $project: { _id: 0, artist: "$_id", plays: 1, listened: 1 } }
+    ]).exec();
+}
+
+/**
+ * Retrieves the total plays & listening time of a user.
+ * @param userId The ID of the user.
+ * @param since Only plays after this time are counted.
+ * @param until (optional) Only plays before this time are counted.
+ */
+export async function getListeningTotals(userId: string, since: number, until?: number): Promise<{ plays: number, listened: number }> {
+    const [totals] = await PlayModel.aggregate([
+        { $match: playsBetween(userId, since, until) },
+        { $group: { _id: null, plays: { $sum: 1 }, listened: { $sum: "$listened" } } }
+    ]).exec();
+
+    return { plays: totals?.plays ?? 0, listened: totals?.listened ?? 0 };
+}
+
+/**
+ * Retrieves the users who listened to music in a time range.
+ * @param since Only plays after this time are counted.
+ * @param until Only plays before this time are counted.
+ * @return The IDs of the users.
+ */
+export async function getListeners(since: number, until: number): Promise<string[]> {
+    return await PlayModel.distinct("userId", {
+        startedAt: { $gte: since, $lt: until }
+    }).exec();
+}
+
+/**
+ * Retrieves the days a user listened to music on.
+ * @param userId The ID of the user.
+ * @return The days, as the number of days since the epoch. (UTC)
+ */
+export async function getListeningDays(userId: string): Promise<number[]> {
+    const days = await PlayModel.aggregate([
+        { $match: { userId } },
+        { $group: { _id: { $floor: { $divide: ["$startedAt", 24 * 60 * 60e3] } } } },
+        { $sort: { _id: 1 } }
+    ]).exec();
+
+    return days.map((day) => day._id);
+}
+
+/**
+ * Retrieves the number of plays of a user in each month.
+ * @param userId The ID of the user.
+ * @param since Only plays after this time are counted.
+ * @param until Only plays before this time are counted.
+ * @return The plays by month, from 1 (January) to 12. (UTC)
+ */
+export async function getListeningMonths(userId: string, since: number, until: number): Promise<{ month: number, plays: number }[]> {
+    return await PlayModel.aggregate([
+        { $match: playsBetween(userId, since, until) },
+        { $group: { _id: { $month: { $toDate: "$startedAt" } }, plays: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+        { $project: { _id: 0, month: "$_id", plays: 1 } }
+    ]).exec();
+}
+
+/**
+ * Retrieves the first play of a user in a time range.
+ * @param userId The ID of the user.
+ * @param since Only plays after this time are checked.
+ * @param until Only plays before this time are checked.
+ */
+export async function getFirstPlay(userId: string, since: number, until: number): Promise<Play | null> {
+    const play = await PlayModel.findOne(playsBetween(userId, since, until))
+        .sort({ startedAt: 1 }).exec();
+    return play ? <Play> sanitize(play.toObject()) : null;
+}
+
+/**
+ * Saves a listen along session.
+ * @param session The session to save.
+ */
+export async function saveSession(session: ListenSession): Promise<void> {
+    await SessionModel.create(session);
+}
+
+/**
+ * Counts the listen along sessions of a user in a time range.
+ * @param userId The ID of the user who listened along.
+ * @param since Only sessions after this time are counted.
+ * @param until Only sessions before this time are counted.
+ */
+export async function countSessions(userId: string, since: number, until: number): Promise<number> {
+    return await SessionModel.countDocuments({
+        userId, joinedAt: { $gte: since, $lt: until }
+    }).exec();
+}
+
+/**
+ * Fetches the recap of a user.
+ * @param userId The ID of the user.
+ * @param year The year of the recap.
+ */
+export async function getRecap(userId: string, year: number): Promise<Recap | null> {
+    const recap = await RecapModel.findOne({ userId, year }).exec();
+    return recap ? <Recap> sanitize(recap.toObject()) : null;
+}
+
+/**
+ * Saves the recap of a user.
+ * @param recap The recap to save.
+ */
+export async function saveRecap(recap: Recap): Promise<void> {
+    await RecapModel.updateOne(
+        { userId: recap.userId, year: recap.year },
+        recap, { upsert: true }).exec();
+}
+
+/**
+ * Fetches a public snapshot of a recap.
+ * @param shareId The ID of the snapshot.
+ */
+export async function getSharedRecap(shareId: string): Promise<SharedRecap | null> {
+    const shared = await SharedRecapModel.findOne({ shareId }).exec();
+    return shared ? <SharedRecap> sanitize(shared.toObject()) : null;
+}
+
+/**
+ * Saves a public snapshot of a recap.
+ * Replaces the snapshot with the same ID.
+ * @param shared The snapshot to save.
+ */
+export async function saveSharedRecap(shared: SharedRecap): Promise<void> {
+    await SharedRecapModel.updateOne(
+        { shareId: shared.shareId },
+        shared, { upsert: true }).exec();
+}
+
+/**
+ * Deletes a public snapshot of a recap.
+ * @param shareId The ID of the snapshot.
+ */
+export async function deleteSharedRecap(shareId: string): Promise<void> {
+    await SharedRecapModel.deleteOne({ shareId }).exec();
+}
+
+/**
+ * Retrieves a cached value from the database.
+ * @param cache The name of the cache.
+ * @param key The key of the value.
+ * @return The value & its expiry time, or null if it is not cached.
+ */
+export async function getCacheEntry(cache: string, key: string): Promise<{ value: any, expires: number } | null> {
+    const result = CacheEntryModel.findOne({ cache, key });
+    const entry = await result.exec();
+
+    // Expired entries are only removed periodically.
+    if (!entry || entry.expires.getTime() < Date.now()) return null;
+    return { value: entry.value, expires: entry.expires.getTime() };
+}
+
+/**
+ * Saves a cached value to the database.
+ * @param cache The name of the cache.
+ * @param key The key of the value.
+ * @param value The value to save.
+ * @param expires The time the value expires at.
+ */
+export async function saveCacheEntry(cache: string, key: string, value: any, expires: number): Promise<void> {
+    await CacheEntryModel.updateOne({ cache, key },
+        { cache, key, value, expires: new Date(expires) }, { upsert: true }).exec();
+}
+
+/**
+ * Deletes a cached value from the database.
+ * @param cache The name of the cache.
+ * @param key The key of the value.
+ */
+export async function deleteCacheEntry(cache: string, key: string): Promise<void> {
+    await CacheEntryModel.deleteOne({ cache, key }).exec();
+}
+
 /*
  * Utility methods.
  */
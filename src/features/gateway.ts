@@ -7,8 +7,11 @@ import constants from "app/constants";
 import { logger } from "app/index";
 import { onlineUsers, recentUsers } from "features/social";
 import { updatePresence } from "features/discord";
+import { Room, createRoom, getRoomByHost } from "features/room";
 import * as types from "app/types";
 import * as database from "features/database";
+import * as playback from "features/playback";
+import * as history from "features/history";
 
 import { WebSocket } from "ws";
 import { IncomingMessage } from "http";
@@ -17,7 +20,7 @@ import { randomUUID } from "crypto";
 
 import type {
     GatewayMessage, InitializeMessage, OfflineUser,
-    OnlineUser, Presence, PresenceMode, SocialStatus, Track, User
+    OnlineUser, PlayerState, Presence, PresenceMode, SocialStatus, Track, User
 } from "app/types";
 import { PresenceType } from "app/types";
 
@@ -46,7 +49,7 @@ function handleConnection(ws: WebSocket, incMsg: IncomingMessage): void {
  * @param userId The user ID to broadcast to.
  * @param payload The payload to send.
  */
-function broadcast(userId: string, payload: GatewayMessage): void {
+export function broadcast(userId: string, payload: GatewayMessage): void {
     // Get the clients.
     const clients = users[userId];
     if (!clients) return;
@@ -57,6 +60,15 @@ function broadcast(userId: string, payload: GatewayMessage): void {
     }
 }
 
+/**
+ * Returns the clients viewing a playlist.
+ * @param playlistId The ID of the playlist.
+ */
+export function getViewers(playlistId: string): Client[] {
+    return Object.values(clients)
+        .filter((client) => client.viewing == playlistId);
+}
+
 /* A collection of message handlers. */
 const handlers = {
     /* Gateway ping. (client) */
@@ -69,6 +81,32 @@ const handlers = {
     listen: require("messages/listen"),
     /* Player state. (client) */
     player: require("messages/player"),
+    /* Player state request. (client) */
+    "player-state": require("messages/playback/state"),
+    /* Queue modification. (client) */
+    queue: require("messages/playback/queue"),
+    /* Shuffle & repeat modes. (client) */
+    "player-mode": require("messages/playback/mode"),
+    /* Skip to the next/previous track. (client) */
+    skip: require("messages/playback/skip"),
+    /* Transfer playback. (client) */
+    transfer: require("messages/playback/transfer"),
+
+    /* Create a room. (client) */
+    "create-room": require("messages/room/create"),
+    /* Join a room. (client) */
+    "join-room": require("messages/room/join"),
+    /* Leave a room. (client) */
+    "leave-room": require("messages/room/leave"),
+    /* Add to the room queue. (client) */
+    "queue-add": require("messages/room/queue"),
+    /* Vote to skip in a room. (client) */
+    "vote-skip": require("messages/room/skip"),
+    /* Transfer the room host. (client) */
+    "transfer-host": require("messages/room/host"),
+
+    /* View a playlist. (client) */
+    "view-playlist": require("messages/playlist/view"),
 
     /* Load users. (bot) */
     "load-users": require("messages/bot/userLoad"),
@@ -105,9 +143,9 @@ export class Client {
     /* Social information. */
     socialStatus: SocialStatus = "Nobody";
     presenceMode: PresenceMode = "None";
-    listeningAlong: { [key: string]: Client } = {};
-    listeningWith: Client | null = null;
+    room: Room | null = null;
     lastUpdate: number = Date.now();
+    viewing: string | null = null; // The ID of the playlist being viewed.
 
     constructor(private readonly socket: WebSocket) {
         // Send the initialize message.
@@ -161,70 +199,34 @@ export class Client {
 
     /**
      * Listen along to another client.
+     * Joins the room hosted by the client, creating one if needed.
      * @param client The client to listen along with.
      */
     listenAlong(client: Client): void {
-        // Add this client to the target's listening along list.
-        client.listeningAlong[this.getId()] = this;
-        // Set this client's listening with.
-        this.listeningWith = client;
-
-        // Sync with the target.
-        this.syncWith(true);
+        const room = getRoomByHost(client.getUserId()) ?? createRoom(client);
+        room.join(this);
     }
 
     /**
      * Stops listening along with another client.
      */
-    stopListeningAlong(host: boolean = false): void {
+    stopListeningAlong(): void {
         // Check if the client is listening along.
-        if (!this.listeningWith) return;
-
-        // Remove this client from the listening along list.
-        delete this.listeningWith.listeningAlong[this.getId()];
-        // Remove the listening with.
-        this.listeningWith = null;
+        if (!this.room || this.room.isHost(this)) return;
 
-        // Check if the host left.
-        if (host) {
-            // Send null sync message.
-            this.send(<types.SyncMessage> {
-                type: "sync",
-                track: null,
-                progress: -1,
-                paused: true
-            });
-        }
-    }
-
-    /**
-     * Syncs this client with the listening with client.
-     */
-    syncWith(seek: boolean = false): void {
-        // Check if the client is listening with someone.
-        if (!this.listeningWith) return;
-
-        // Send a sync message.
-        this.send(<types.SyncMessage> {
-            type: "sync",
-            track: this.listeningWith.listeningTo,
-            progress: this.listeningWith.progress,
-            paused: this.listeningWith.paused,
-            seek
-        });
+        // Leave the room.
+        this.room.leave(this);
     }
 
     /**
      * Syncs listeners with the host.
      */
     updateListeners(): void {
-        const listeners = Object.values(this.listeningAlong);
-        // Check if there are any listeners.
-        if (listeners.length < 1) return;
+        // Check if the client is hosting a room.
+        if (!this.room || !this.room.isHost(this)) return;
 
         // Send a sync message to each listener.
-        listeners.forEach(listener =>
-            listener.syncWith(true));
+        this.room.update(true);
     }
 
     /**
@@ -350,6 +352,94 @@ export class Client {
         this.socket.send(JSON.stringify(data));
     }
 
+    /*
+     * Playback utilities.
+     */
+
+    /**
+     * Checks if this client is the user's playing device.
+     * Any client can play when the device has disconnected.
+     * @param state The user's player state.
+     */
+    isPlaying(state: PlayerState): boolean {
+        if (state.device == this.getId()) return true;
+        return !(users[this.userId] ?? [])
+            .find(client => client.getId() == state.device);
+    }
+
+    /**
+     * Updates the user's player state from this client.
+     */
+    async updatePlayback(): Promise<void> {
+        const state = await playback.getState(this.userId);
+
+        // Check if this client is playing for the user.
+        if (!this.isPlaying(state)) {
+            // Paused clients cannot take over playback.
+            if (this.paused) return;
+            // Take over playback from the other client.
+            await this.transferPlayback(false);
+        }
+
+        // Update the player state.
+        playback.setTrack(state, this.listeningTo);
+        state.progress = this.progress;
+        state.paused = this.paused;
+
+        // Save & share the state.
+        // Player updates are frequent, so saves are batched.
+        playback.saveLater(this.userId);
+        await this.syncPlayback();
+    }
+
+    /**
+     * Moves the user's playback to this client.
+     * Pauses the user's other clients.
+     * @param resume Should this client resume the player state?
+     */
+    async transferPlayback(resume: boolean = true): Promise<void> {
+        const state = await playback.getState(this.userId);
+        state.device = this.getId();
+
+        // Pause the user's other clients.
+        for (const client of users[this.userId] ?? []) {
+            if (client == this) continue;
+            client.send(<types.SyncMessage> {
+                type: "sync",
+                track: state.track,
+                progress: state.progress,
+                paused: true,
+                seek: false
+            });
+        }
+
+        // Resume the player state on this client.
+        if (resume) {
+            state.paused = state.track == null;
+            this.send(<types.SyncMessage> {
+                type: "sync",
+                track: state.track,
+                progress: state.progress,
+                paused: state.paused,
+                seek: true
+            });
+
+            // Save & share the state.
+            playback.save(this.userId);
+            await this.syncPlayback();
+        }
+    }
+
+    /**
+     * Sends the user's player state to all of their clients.
+     */
+    async syncPlayback(): Promise<void> {
+        const state = await playback.getState(this.userId);
+        broadcast(this.userId, <types.PlayerStateMessage> {
+            type: "player-state", state
+        });
+    }
+
     /*
      * Utility checks.
      */
@@ -482,6 +572,15 @@ export class Client {
                     const online = await this.asOnlineUser(user);
                     online && (onlineUsers[user.userId] = online);
 
+                    // Send the user's player state.
+                    this.send(<types.PlayerStateMessage> {
+                        type: "player-state",
+                        state: await playback.getState(user.userId)
+                    });
+
+                    // Check if the user was hosting a room.
+                    getRoomByHost(user.userId)?.reconnect(this);
+
                     // Check if the user has a presence token.
                     if (user.presenceToken) {
                         // Clear the existing presence.
@@ -538,8 +637,11 @@ export class Client {
         // Handle the message.
         const handler = handlers[json.type];
         if (handler) {
+            // Catch errors of asynchronous handlers.
             // noinspection TypeScriptValidateJSTypes
-            handler.default(this, json);
+            Promise.resolve()
+                .then(() => handler.default(this, json))
+                .catch((err) => logger.warn(`Failed to handle a ${json.type} message.`, err));
         } else {
             // Send an error message.
             this.send(constants.GATEWAY_UNKNOWN_MESSAGE());
@@ -558,18 +660,16 @@ export class Client {
         // Log a message to the console.
         logger.debug("Client disconnected.");
 
-        // Remove the client from listening along states.
-        if (this.listeningWith) this.stopListeningAlong();
-        // Check if the client has listeners.
-        if (Object.keys(this.listeningAlong).length > 0) {
-            // Stop listening along with the client.
-            Object.values(this.listeningAlong).forEach(
-                client => client.stopListeningAlong(true));
-        }
+        // Remove the client from its room.
+        // Rooms wait for their host to reconnect.
+        this.room?.leave(this, true);
 
         // Clear the client's rich presence.
         await updatePresence(this.userId, null);
 
+        // Save the client's current play.
+        history.finish(this);
+
         // Remove the client from the 'clients' collection.
         delete clients[this.getId()];
         if (this.userId && users[this.userId]) {
@@ -583,6 +683,17 @@ export class Client {
                 });
             }
 
+            // Stop the user's playback if this client was playing.
+            const state = await playback.getState(this.userId);
+            if (state.device == this.getId()) {
+                state.device = null;
+                state.paused = true;
+                state.progress = this.progress;
+            }
+            // Save the user's player state.
+            await playback.saveState(this.userId);
+            users[this.userId].length < 2 && playback.unload(this.userId);
+
             // Remove the user from online users.
             onlineUsers[this.userId] && delete onlineUsers[this.userId];
 
@@ -0,0 +1,307 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { ListeningStats, StatsRange, Track } from "app/types";
+import type { Client } from "features/gateway";
+import { getToken } from "app/utils";
+import * as database from "features/database";
+
+const pageLimit = 100; // The maximum number of plays sent at once.
+const topLimit = 10; // The number of top tracks & artists.
+const minimumListened = 1e3; // Plays shorter than this are not saved.
+const skipThreshold = 0.9; // Plays which end before this part of the track are skips.
+const restartWindow = 5; // Seeking this close to the start, in seconds, replays the track.
+
+const day = 24 * 60 * 60e3;
+const ranges: { [key in StatsRange]: number } = {
+    week: 7 * day,
+    month: 30 * day,
+    all: Infinity
+};
+
+/**
+ * The play of a client which is in progress.
+ * @param progress The progress of the track in seconds, as of the last update.
+ * @param lastUpdate The time 'listened' & 'progress' were last updated.
+ */
+type Listening = {
+    track: Track;
+    startedAt: number;
+    listened: number;
+    progress: number;
+    lastUpdate: number;
+    paused: boolean;
+};
+const listening: { [key: string]: Listening } = {};
+
+/**
+ * Adds the time since the last update to the play of a client.
+ * @param play The play to update.
+ */
+function accumulate(play: Listening): void {
+    const now = Date.now();
+    if (!play.paused) {
+        play.listened += now - play.lastUpdate;
+        play.progress += (now - play.lastUpdate) / 1e3;
+    }
+    play.lastUpdate = now;
+}
+
+/**
+ * Starts a new play for a client.
+ * @param client The client playing.
+ * @param track The track now playing.
+ * @param paused Is the player paused?
+ * @param progress The progress of the track in seconds.
+ */
+function start(client: Client, track: Track, paused: boolean, progress: number): void {
+    listening[client.getId()] = {
+        track,
+        startedAt: Date.now(),
+        listened: 0,
+        progress,
+        lastUpdate: Date.now(),
+        paused
+    };
+}
+
+/**
+ * Checks if a play jumped back to the start of the track.
+ * @param play The play, updated to the current time.
+ * @param progress The new progress of the track in seconds.
+ */
+function restarted(play: Listening, progress: number): boolean {
+    return progress < restartWindow && play.progress > progress + restartWindow;
+}
+
+/**
+ * Updates the play of a client.
+ * Saves the previous play if the track changed or restarted.
+ * Should be called before the client's player data is updated.
+ * @param client The client playing.
+ * @param track The track now playing.
+ * @param paused Is the player paused?
+ * @param progress The progress of the track in seconds.
+ */
+export function update(client: Client, track: Track | null, paused: boolean, progress: number): void {
+    const play = listening[client.getId()];
+    if (play) accumulate(play);
+
+    // Check if the same track is still playing.
+    if (play?.track.id == track?.id && !(play && restarted(play, progress))) {
+        play && Object.assign(play, { paused, progress });
+        return;
+    }
+
+    finish(client);
+    track && start(client, track, paused, progress);
+}
+
+/**
+ * Updates the play of a client after seeking.
+ * Seeking back to the start replays the track.
+ * @param client The client playing.
+ * @param progress The progress of the track in seconds.
+ */
+export function seek(client: Client, progress: number): void {
+    const play = listening[client.getId()];
+    if (!play) return;
+    accumulate(play);
+
+    // Check if the track is played again.
+    if (restarted(play, progress)) {
+        finish(client);
+        start(client, play.track, play.paused, progress);
+    } else {
+        play.progress = progress;
+    }
+}
+
+/**
+ * Checks if a play ended before the track was mostly played.
+ * @param progress The progress of the track when the play ended, in seconds.
+ * @param duration The duration of the track in seconds.
+ */
+export function isSkip(progress: number, duration: number): boolean {
+    return duration > 0 && progress < duration * skipThreshold;
+}
+
+/**
+ * Saves the play of a client to the user's history.
+ * @param client The client which stopped playing.
+ */
+export function finish(client: Client): void {
+    const play = listening[client.getId()];
+    if (!play) return;
+    delete listening[client.getId()];
+
+    // Check if the play should be saved.
+    accumulate(play);
+    if (!client.isLoggedIn() || play.listened < minimumListened) return;
+
+    // Check if the track was skipped.
+    const skipped = isSkip(play.progress, play.track.duration ?? 0);
+
+    database
+        .savePlay({
+            userId: client.getUserId(),
+            track: play.track,
+            startedAt: play.startedAt,
+            listened: play.listened,
+            device: client.getId(),
+            skipped
+        })
+        .catch((err) => logger.warn(err));
+}
+
+/**
+ * Saves a listen along session to the user's history.
+ * @param client The client which joined the room.
+ * @param hostId The ID of the user hosting the room.
+ * @param roomId The ID of the room.
+ */
+export function listenAlong(client: Client, hostId: string, roomId: string): void {
+    if (!client.isLoggedIn()) return;
+
+    database
+        .saveSession({
+            userId: client.getUserId(),
+            hostId,
+            roomId,
+            joinedAt: Date.now()
+        })
+        .catch((err) => logger.warn(err));
+}
+
+/**
+ * Counts the streaks of listening days.
+ * @param days The days listened on, in order.
+ */
+function streaks(days: number[]): { current: number; longest: number } {
+    let longest = 0,
+        streak = 0;
+    days.forEach((day, index) => {
+        streak = index > 0 && days[index - 1] == day - 1 ? streak + 1 : 1;
+        longest = Math.max(longest, streak);
+    });
+
+    // The current streak continues if the user listened today or yesterday.
+    const today = Math.floor(Date.now() / day);
+    const current = days[days.length - 1] >= today - 1 ? streak : 0;
+
+    return { current, longest };
+}
+
+/**
+ * Calculates the listening statistics of a user.
+ * @param userId The ID of the user.
+ * @param range The time range of the top tracks & artists.
+ */
+export async function getStats(userId: string, range: StatsRange): Promise<ListeningStats> {
+    const since = Date.now() - ranges[range];
+    const start = isFinite(since) ? since : 0;
+
+    const [topTracks, topArtists, totals, days] = await Promise.all([
+        database.getTopTracks(userId, start, topLimit),
+        database.getTopArtists(userId, start, topLimit),
+        database.getListeningTotals(userId, start),
+        database.getListeningDays(userId)
+    ]);
+    const { current, longest } = streaks(days);
+
+    return {
+        range,
+        topTracks,
+        topArtists,
+        plays: totals.plays,
+        listened: totals.listened,
+        currentStreak: current,
+        longestStreak: longest
+    };
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches a page of the user's listening history.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchHistory(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const offset = parseInt(<string>req.query.offset) || 0;
+    const limit = parseInt(<string>req.query.limit) || 50;
+
+    // Validate arguments.
+    if (offset < 0 || limit < 1 || limit > pageLimit) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the page of plays.
+    const { plays, total } = await database.getHistory(user.userId, offset, limit);
+    const next = offset + plays.length < total ? offset + plays.length : null;
+
+    rsp.status(200).send(constants.SUCCESS({ plays, total, next }));
+}
+
+/**
+ * Fetches the user's listening statistics.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchStats(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const range = <StatsRange>(<string>req.query.range || "month");
+
+    // Validate arguments.
+    if (!Object.hasOwn(ranges, range)) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    const stats = await getStats(user.userId, range);
+    rsp.status(200).send(constants.SUCCESS({ stats }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/user/history", fetchHistory);
+app.get("/user/stats", fetchStats);
+
+/* Export the router. */
+export default app;
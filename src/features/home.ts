@@ -0,0 +1,283 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { Album, Artist, HomeSection, HomeSectionName, PlaylistResult, RadioMix, Track, User } from "app/types";
+import { getToken } from "app/utils";
+import * as database from "features/database";
+import * as discord from "features/discord";
+import * as radio from "features/radio";
+import { Cache } from "features/cache";
+import { onlineUsers, visibleTo } from "features/social";
+
+import * as registry from "engines/registry";
+
+const itemLimit = 20; // The maximum number of items in a section.
+const mixCount = 3; // The number of radio mixes made for each user.
+const releaseYears = 1; // How many years back releases are new.
+
+// Cached artist pages by engine & ID.
+const artists = new Cache<Artist>("home-artists", 6 * 60 * 60e3, 500);
+
+/**
+ * A section of the home page.
+ * @param lifetime How long the section is cached for, in milliseconds.
+ * @param build Creates the items of the section for a user.
+ */
+type Section = {
+    lifetime: number;
+    cache: Cache<HomeSection>;
+    build: (user: User) => Promise<HomeSection["items"]>;
+};
+
+/**
+ * Creates a section of the home page.
+ * Sections are cached separately for each user.
+ * @param name The name of the section.
+ * @param lifetime How long the section is cached for, in milliseconds.
+ * @param build Creates the items of the section for a user.
+ */
+function section(name: HomeSectionName, lifetime: number, build: Section["build"]): Section {
+    return { lifetime, cache: new Cache<HomeSection>(`home-${name}`, lifetime, 1000), build };
+}
+
+/* The sections of the home page. */
+const sections: { [key in HomeSectionName]: Section } = {
+    jumpBackIn: section("jumpBackIn", 5 * 60e3, jumpBackIn),
+    // Radio mixes expire with their continuation tokens.
+    madeForYou: section("madeForYou", 30 * 60e3, madeForYou),
+    friendsPlaying: section("friendsPlaying", 30e3, friendsPlaying),
+    newReleases: section("newReleases", 6 * 60 * 60e3, newReleases),
+    friendsPlaylists: section("friendsPlaylists", 60 * 60e3, friendsPlaylists)
+};
+const sectionNames = Object.keys(sections);
+
+/**
+ * Returns a section of the user's home page.
+ * @param name The name of the section.
+ * @param user The user viewing the home page.
+ */
+export async function getSection(name: HomeSectionName, user: User): Promise<HomeSection> {
+    const { lifetime, cache, build } = sections[name];
+    return await cache.fetch(user.userId, async () => ({
+        name,
+        items: await build(user),
+        updatedAt: Date.now(),
+        expires: Date.now() + lifetime
+    }));
+}
+
+/**
+ * Finds the tracks the user played most recently.
+ * @param user The user.
+ */
+async function jumpBackIn(user: User): Promise<Track[]> {
+    const { plays } = await database.getHistory(user.userId, 0, itemLimit * 3);
+
+    // Remove repeated plays.
+    const tracks: Track[] = [];
+    for (const { track } of plays) {
+        if (tracks.length >= itemLimit) break;
+        if (!tracks.some((other) => other.id == track.id)) tracks.push(track);
+    }
+
+    // Use the recent tracks of users without history.
+    return tracks.length > 0 ? tracks : (user.recentlyPlayed ?? []).filter((track) => track != null);
+}
+
+/**
+ * Creates radio mixes from the user's most played tracks.
+ * @param user The user.
+ */
+async function madeForYou(user: User): Promise<RadioMix[]> {
+    const recent = (user.recentlyPlayed ?? []).filter((track) => track != null);
+    const top = await database.getTopTracks(user.userId, Date.now() - 30 * 24 * 60 * 60e3, mixCount);
+    const seeds = top.length > 0 ? top.map(({ track }) => track) : recent.slice(0, mixCount);
+
+    const mixes = await Promise.all(
+        seeds.map(async (seed) => {
+            const page = await radio.start([seed], recent).catch((error) => {
+                logger.debug(`Failed to make a mix from ${seed.id}.`, error);
+                return null;
+            });
+            return page ? { ...page, seed } : null;
+        })
+    );
+
+    return mixes.filter((mix) => mix != null);
+}
+
+/**
+ * Finds the friends of the user who are listening to music.
+ * @param user The user.
+ */
+async function friendsPlaying(user: User): Promise<HomeSection["items"]> {
+    const listening = Object.values(onlineUsers).filter(
+        (online) => online.listeningTo != null && online.userId != user.userId
+    );
+    return (await visibleTo(listening, user)).slice(0, itemLimit);
+}
+
+/**
+ * Finds recent releases of the artists the user follows.
+ * @param user The user.
+ */
+async function newReleases(user: User): Promise<Album[]> {
+    const since = new Date().getUTCFullYear() - releaseYears;
+
+    const pages = await Promise.all(
+        (user.followedArtists ?? []).map(async ({ id, engine }) => {
+            const source = registry.get(engine);
+            if (!source?.artist) return null;
+
+            return await artists
+                .fetch(`${engine}:${id}`, () => source.artist(id))
+                .catch((error) => {
+                    logger.debug(`Failed to fetch artist ${id}.`, error);
+                    return null;
+                });
+        })
+    );
+
+    return pages
+        .filter((artist) => artist != null)
+        .flatMap((artist) => [...artist.albums, ...artist.singles])
+        .filter((album) => album.year != null && album.year >= since)
+        .sort((a, b) => b.year - a.year)
+        .slice(0, itemLimit);
+}
+
+/**
+ * Finds the public playlists of the user's friends.
+ * @param user The user.
+ */
+async function friendsPlaylists(user: User): Promise<PlaylistResult[]> {
+    const friends = (await discord.getFriends(user)) ?? [];
+    if (friends.length == 0) return [];
+
+    const playlists = await database.getPublicPlaylists(
+        friends.map((friend) => friend.id),
+        itemLimit
+    );
+    return playlists.map((playlist) => {
+        const owner = friends.find((friend) => friend.id == playlist.owner);
+        return {
+            id: playlist.id,
+            name: playlist.name,
+            owner: owner?.username ?? playlist.owner,
+            icon: playlist.icon,
+            url: `${constants.WEB_TARGET}/playlist/${playlist.id}`,
+            size: playlist.tracks.length
+        };
+    });
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches the sections of the user's home page.
+ * Sections which fail to load are left out.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchHome(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const names = req.query.sections ? (<string>req.query.sections).split(",") : sectionNames;
+
+    // Validate arguments.
+    if (!names.every((name) => sectionNames.includes(name))) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Load the sections.
+    const results = await Promise.all(
+        names.map((name: HomeSectionName) =>
+            getSection(name, user).catch((error) => {
+                logger.warn(`Failed to load the ${name} section.`, error);
+                return null;
+            })
+        )
+    );
+
+    rsp.status(200).send(
+        constants.SUCCESS({
+            sections: results.filter((result) => result != null)
+        })
+    );
+}
+
+/**
+ * Fetches one section of the user's home page.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchSection(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const name = <HomeSectionName>req.params.section;
+
+    // Validate arguments.
+    if (!sectionNames.includes(name)) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Load the section.
+    let result: HomeSection | null = null;
+    try {
+        result = await getSection(name, user);
+    } catch (error) {
+        logger.warn(`Failed to load the ${name} section.`, error);
+    }
+
+    if (result == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Let the client cache the section until it expires.
+    const maxAge = Math.max(0, Math.floor((result.expires - Date.now()) / 1000));
+    rsp.set("Cache-Control", `private, max-age=${maxAge}`);
+    rsp.status(200).send(constants.SUCCESS({ section: result }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/home", fetchHome);
+app.get("/home/:section", fetchSection);
+
+/* Export the router. */
+export default app;
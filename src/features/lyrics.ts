@@ -0,0 +1,196 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { Lyrics, LyricsProvider, Track } from "app/types";
+import { getToken, parseLrc } from "app/utils";
+import * as database from "features/database";
+
+import * as registry from "engines/registry";
+import * as lrclib from "engines/lrclib";
+import * as ytmusic from "engines/ytmusic";
+
+/* Lyrics providers, from high -> low priority. */
+const providers: LyricsProvider[] = [
+    { name: "LRCLIB", fetch: lrclib.lyrics },
+    { name: "YouTube Music", fetch: ytmusic.lyrics }
+];
+
+const retryInterval = 24 * 60 * 60e3; // How often tracks with plain lyrics are checked for synced lyrics.
+
+/**
+ * Fetches a track's data from its ID.
+ * @param id The ID of the track.
+ * @return The track, or null if it wasn't found.
+ */
+async function fetchTrack(id: string): Promise<Track | null> {
+    try {
+        const resolved = await registry.resolve(id);
+        return resolved ? await resolved.engine.fetchTrack(resolved.id) : null;
+    } catch (error) {
+        logger.debug(`Failed to fetch track ${id}.`, error);
+        return null;
+    }
+}
+
+/**
+ * Checks if stored lyrics can be used without asking the providers.
+ * Plain lyrics are provisional until synced lyrics are found.
+ * @param lyrics The stored lyrics.
+ */
+function isFinal(lyrics: Lyrics): boolean {
+    return lyrics.synced || (lyrics.fetchedAt ?? 0) > Date.now() - retryInterval;
+}
+
+/**
+ * Fetches the lyrics of a track.
+ * Checks the database before asking the providers.
+ * @param id The ID of the track.
+ * @param track (optional) The track data, if it is known.
+ * @return The lyrics, or null if none were found.
+ */
+export async function getLyrics(id: string, track: Track | null = null): Promise<Lyrics | null> {
+    // Check the database for the lyrics.
+    let cached = await database.getLyrics(id);
+    if (cached && isFinal(cached)) return cached;
+
+    // Fetch the track data.
+    track = track ?? (await fetchTrack(id));
+    if (track == null) return cached;
+
+    // Check the database for the resolved ID.
+    if (track.id != id) {
+        cached = (await database.getLyrics(track.id)) ?? cached;
+        if (cached && isFinal(cached)) return cached;
+    }
+
+    // Ask each provider for lyrics.
+    // Synced lyrics replace plain ones found earlier.
+    let lyrics: Lyrics | null = null;
+    for (const provider of providers) {
+        try {
+            const found = await provider.fetch(track);
+            if (found && (!lyrics || found.synced)) lyrics = found;
+        } catch (error) {
+            logger.debug(`Failed to fetch lyrics from ${provider.name}.`, error);
+        }
+
+        // Stop at the first synced lyrics.
+        if (lyrics?.synced) break;
+    }
+
+    // Keep the provisional lyrics until synced ones are found.
+    lyrics = lyrics?.synced ? lyrics : cached ?? lyrics;
+
+    // Save the lyrics to the database.
+    lyrics && (await database.saveLyrics({ ...lyrics, fetchedAt: Date.now() }));
+    return lyrics;
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches the lyrics of a track.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchLyrics(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+
+    // Validate arguments.
+    if (id == "") {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the lyrics.
+    const lyrics = await getLyrics(id);
+    if (lyrics == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Send the lyrics.
+    rsp.status(200).send(constants.SUCCESS({ lyrics }));
+}
+
+/**
+ * Submits synced lyrics for a track.
+ * Only tracks without synced lyrics accept submissions.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function submitLyrics(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const lrc: string = req.body.lrc;
+
+    // Validate arguments.
+    if (id == "" || typeof lrc != "string") {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Parse the lyrics.
+    const lines = parseLrc(lrc);
+    if (lines.length == 0) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the track data.
+    const track = await fetchTrack(id);
+    if (track == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Check if the track already has synced lyrics.
+    const existing = await getLyrics(track.id, track);
+    if (existing?.synced) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Save the lyrics.
+    const lyrics: Lyrics = {
+        id: track.id,
+        synced: true,
+        lines,
+        plain: lines.map((line) => line.text).join("\n"),
+        source: "User",
+        submittedBy: user.userId
+    };
+    await database.saveLyrics(lyrics);
+
+    // Send the lyrics.
+    rsp.status(201).send(constants.SUCCESS({ lyrics }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/lyrics/:id", fetchLyrics);
+app.post("/lyrics/:id", submitLyrics);
+
+/* Export the router. */
+export default app;
@@ -0,0 +1,238 @@
+/* Imports. */
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { SearchResult, TrackMatch } from "app/types";
+import { getToken } from "app/utils";
+import * as database from "features/database";
+import { Cache } from "features/cache";
+import { bestMatch, confidence } from "filters/spotifySong";
+
+import * as youtube from "engines/youtube";
+import * as spotify from "engines/spotify";
+
+const reportLimit = 3; // The number of reports which reject a match.
+const submitLimit = reportLimit; // The number of submissions which replace a match.
+const matches = new Cache<TrackMatch>("matches", 60 * 60e3, 5000); // Cached matches by ISRC.
+
+/**
+ * Returns the stored match of a track.
+ * @param isrc The ISRC of the track.
+ */
+export async function getMatch(isrc: string): Promise<TrackMatch | null> {
+    return await matches.fetch(isrc, () => database.getMatch(isrc));
+}
+
+/**
+ * Saves the match of a track.
+ * @param match The match to save.
+ */
+async function saveMatch(match: TrackMatch): Promise<void> {
+    await database.saveMatch(match);
+    matches.set(match.isrc, match);
+}
+
+/**
+ * Finds the YouTube video of a track.
+ * Uses the stored match if there is one.
+ * @param track The track to find.
+ * @return The ID of the video.
+ */
+export async function resolve(track: SearchResult): Promise<string> {
+    // Check if the track was found.
+    if (!track?.title || !track?.artist) throw new Error("Failed to find the track.");
+
+    // Check for a stored match.
+    const match = await getMatch(track.id);
+    if (match?.videoId) return match.videoId;
+
+    // Search for the track.
+    const rejected = match?.rejected ?? [];
+    const results = (await youtube.search(`${track.title} - ${track.artist} - Topic`)).results.filter(
+        (result) => !rejected.includes(result.id)
+    );
+
+    // Pick the closest result.
+    const best = bestMatch(track, results);
+    if (best == null) throw new Error("Failed to find a video for the track.");
+
+    // Save the match.
+    await saveMatch({
+        isrc: track.id,
+        videoId: best.id,
+        confidence: confidence(track, best),
+        source: "Search",
+        reports: [],
+        rejected,
+        suggestions: match?.suggestions
+    });
+
+    return best.id;
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches the match of a track.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchMatch(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+
+    // Fetch the track data.
+    const track = await spotify.fetchTrack(id).catch(() => null);
+    if (track == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Find the match of the track.
+    const match = await getMatch(track.id);
+    if (!match?.videoId) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ match }));
+}
+
+/**
+ * Reports the match of a track as wrong.
+ * Rejected matches are searched for again.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function reportMatch(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+
+    // Fetch the track data.
+    const track = await spotify.fetchTrack(id).catch(() => null);
+    const match = track ? await getMatch(track.id) : null;
+    if (!match?.videoId) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Add the report.
+    if (!match.reports.includes(user.userId)) match.reports.push(user.userId);
+
+    // Reject the match if enough users reported it.
+    if (match.reports.length >= reportLimit) {
+        match.rejected.push(match.videoId);
+        match.videoId = null;
+        match.reports = [];
+    }
+
+    await saveMatch(match);
+    rsp.status(200).send(constants.SUCCESS({ match }));
+}
+
+/**
+ * Submits the correct match of a track.
+ * The match is replaced once enough users submit the same video.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function submitMatch(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const videoId: string = req.body.videoId;
+
+    // Validate arguments.
+    if (typeof videoId != "string" || videoId.length != 11) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the track & video data.
+    const track = await spotify.fetchTrack(id).catch(() => null);
+    const video = track ? await youtube.fetchTrack(videoId).catch(() => null) : null;
+    if (track == null || video == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Get the current match.
+    let match: TrackMatch = (await getMatch(track.id)) ?? {
+        isrc: track.id,
+        videoId: null,
+        confidence: 0,
+        source: "Search",
+        reports: [],
+        rejected: []
+    };
+    if (match.videoId == videoId) {
+        rsp.status(200).send(constants.SUCCESS({ match }));
+        return;
+    }
+
+    // Move the user's vote to the video.
+    const suggestions = (match.suggestions ?? [])
+        .map((other) => ({ ...other, users: other.users.filter((id) => id != user.userId) }))
+        .filter((other) => other.users.length > 0);
+    let suggestion = suggestions.find((other) => other.videoId == videoId);
+    if (!suggestion) suggestions.push((suggestion = { videoId, users: [] }));
+    suggestion.users.push(user.userId);
+    match.suggestions = suggestions;
+
+    // Replace the match if enough users submitted the video.
+    if (suggestion.users.length >= submitLimit) {
+        match = {
+            isrc: track.id,
+            videoId,
+            confidence: 1,
+            source: "User",
+            reports: [],
+            rejected: match.rejected.filter((id) => id != videoId),
+            submittedBy: user.userId,
+            suggestions: suggestions.filter((other) => other != suggestion)
+        };
+    }
+
+    await saveMatch(match);
+    rsp.status(200).send(constants.SUCCESS({ match }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/match/:id", fetchMatch);
+app.post("/match/:id", submitMatch);
+app.post("/match/:id/report", reportMatch);
+
+/* Export the router. */
+export default app;
@@ -0,0 +1,156 @@
+// This file manages the server-side player state of users.
+// The state follows the user across all of their clients.
+
+/* Imports. */
+import { logger } from "app/index";
+import type { PlayerState, Track } from "app/types";
+import * as database from "features/database";
+
+const saveDelay = 5e3; // How long player updates are batched for before saving.
+
+const states: { [key: string]: PlayerState } = {}; // Loaded player states.
+const loading: { [key: string]: Promise<PlayerState> } = {}; // Player states being loaded.
+const pending: { [key: string]: NodeJS.Timeout } = {}; // Delayed saves.
+
+/**
+ * Creates an empty player state.
+ */
+function defaultState(): PlayerState {
+    return {
+        track: null,
+        queue: [],
+        history: [],
+        shuffle: false,
+        repeat: "None",
+        progress: 0,
+        paused: true,
+        device: null
+    };
+}
+
+/**
+ * Returns the user's player state.
+ * Loads the state from the database if needed.
+ * Concurrent loads share one state.
+ * @param userId The ID of the user.
+ */
+export async function getState(userId: string): Promise<PlayerState> {
+    if (states[userId]) return states[userId];
+    if (loading[userId]) return await loading[userId];
+
+    const task = database
+        .getPlayerState(userId)
+        .then((state) => (states[userId] = { ...defaultState(), ...(state ?? {}) }))
+        .finally(() => delete loading[userId]);
+    return await (loading[userId] = task);
+}
+
+/**
+ * Saves the user's player state to the database.
+ * @param userId The ID of the user.
+ */
+export async function saveState(userId: string): Promise<void> {
+    // The latest state replaces any delayed save.
+    clearTimeout(pending[userId]);
+    delete pending[userId];
+
+    const state = states[userId];
+    if (!state) return;
+
+    await database.updatePlayerState(userId, state);
+}
+
+/**
+ * Saves the user's player state in the background.
+ * @param userId The ID of the user.
+ */
+export function save(userId: string): void {
+    saveState(userId).catch((err) => logger.warn(err));
+}
+
+/**
+ * Saves the user's player state after a delay.
+ * Frequent updates are saved once.
+ * @param userId The ID of the user.
+ */
+export function saveLater(userId: string): void {
+    if (pending[userId]) return;
+    pending[userId] = setTimeout(() => save(userId), saveDelay);
+}
+
+/**
+ * Unloads the user's player state.
+ * @param userId The ID of the user.
+ */
+export function unload(userId: string): void {
+    delete states[userId];
+}
+
+/**
+ * Sets the track being played.
+ * Moves the previous track into the history.
+ * @param state The player state.
+ * @param track The new track.
+ */
+export function setTrack(state: PlayerState, track: Track | null): void {
+    // Check if the track changed.
+    if (state.track?.id == track?.id) return;
+
+    // Add the previous track to the history.
+    if (state.track) {
+        state.history.unshift(state.track);
+        state.history = state.history.slice(0, 50);
+    }
+
+    // Remove the track from the queue if it was next.
+    if (track && state.queue[0]?.id == track.id) state.queue.shift();
+
+    state.track = track;
+    state.progress = 0;
+}
+
+/**
+ * Advances to the next track in the queue.
+ * Follows the state's shuffle and repeat modes.
+ * @param state The player state.
+ * @return The new track, or null if the queue is empty.
+ */
+export function next(state: PlayerState): Track | null {
+    state.progress = 0;
+    // Check if the track should be repeated.
+    if (state.repeat == "Track" && state.track) return state.track;
+
+    // Move the current track to the history.
+    const previous = state.track;
+    if (previous) {
+        state.history.unshift(previous);
+        state.history = state.history.slice(0, 50);
+        // Re-queue the track when repeating the queue.
+        if (state.repeat == "Queue") state.queue.push(previous);
+    }
+
+    // Pick the next track.
+    const index = state.shuffle ? Math.floor(Math.random() * state.queue.length) : 0;
+    state.track = state.queue.splice(index, 1)[0] ?? null;
+
+    return state.track;
+}
+
+/**
+ * Returns to the previously played track.
+ * @param state The player state.
+ * @return The new track.
+ */
+export function previous(state: PlayerState): Track | null {
+    state.progress = 0;
+
+    // Check if there is a track to return to.
+    const track = state.history.shift();
+    if (!track) return state.track;
+
+    // Put the current track back into the queue.
+    if (state.track) state.queue.unshift(state.track);
+    state.track = track;
+
+    return state.track;
+}
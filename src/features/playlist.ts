@@ -1,14 +1,166 @@
 /* Imports. */
+import { logger } from "app/index";
 import constants from "app/constants";
 import { Request, Response, Router } from "express";
 import * as database from "features/database";
 import * as validate from "app/validate";
 
-import { Playlist, Track } from "app/types";
-import { isJson, getToken, sanitize, modelFrom, identifyUrl } from "app/utils";
+import type {
+    Collaborator, ImportJob, Playlist, PlaylistChange, PlaylistRole,
+    PlaylistUpdatedMessage, SyncReport, Track
+} from "app/types";
+import { isJson, isIndex, getToken, identifyUrl, randomString, sanitize, trackFrom } from "app/utils";
+import { Cache } from "features/cache";
+import * as discord from "features/discord";
+import * as gateway from "features/gateway";
+
+import * as registry from "engines/registry";
+import enrich from "filters/enrich";
+
+const changeLimit = 50; // The number of changes kept per playlist.
+const syncInterval = 6 * 60 * 60e3; // How often imported playlists are synced.
+const importWait = 10e3; // How long imports can run before the progress is sent instead.
+const imports = new Cache<ImportJob>("imports", 60 * 60e3, 1000); // Playlist imports by ID.
+// The edits editors can make.
+const editorChanges = ["add", "remove", "bulk", "move", "insert", "remove-many", "dedupe", "sort"];
+
+// Compares tracks by each sort order.
+const sorters: { [key: string]: (a: Track, b: Track) => number } = {
+    title: (a, b) => a.title.localeCompare(b.title),
+    artist: (a, b) => a.artist.localeCompare(b.artist),
+    duration: (a, b) => a.duration - b.duration,
+    added: (a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0)
+};
 
-import * as youtube from "engines/youtube";
-import * as spotify from "engines/spotify";
+/**
+ * Returns the role of a user in a playlist.
+ * @param playlist The playlist to check.
+ * @param userId The ID of the user.
+ * @return The role of the user, or null if they were not invited.
+ */
+export function getRole(playlist: Playlist, userId: string): PlaylistRole | "Owner" | null {
+    if (playlist.owner == userId) return "Owner";
+    return playlist.collaborators?.find((user) => user.userId == userId)?.role ?? null;
+}
+
+/**
+ * Checks if a user can view a playlist.
+ * @param playlist The playlist to check.
+ * @param userId The ID of the user, or null if they are not logged in.
+ */
+export function canView(playlist: Playlist, userId: string | null): boolean {
+    return !playlist.isPrivate || (userId != null && getRole(playlist, userId) != null);
+}
+
+/**
+ * Records a change to a playlist.
+ * Increases the version of the playlist.
+ * @param playlist The changed playlist.
+ * @param userId The ID of the user who made the change.
+ * @param type The type of change.
+ */
+function recordChange(playlist: Playlist, userId: string, type: string): PlaylistChange {
+    const change: PlaylistChange = { userId, type, timestamp: Date.now() };
+    playlist.changes = (playlist.changes ?? []).concat(change).slice(-changeLimit);
+    playlist.version = (playlist.version ?? 0) + 1;
+
+    return change;
+}
+
+/**
+ * Updates a playlist with the tracks of its source.
+ * New tracks are added to the end of the playlist.
+ * Tracks removed from the playlist by users are not added again.
+ * @param playlist The playlist to sync. This object is updated.
+ * @param removeDeleted Should tracks deleted from the source be removed?
+ * @return What changed in the playlist.
+ */
+async function sync(
+    playlist: Playlist, removeDeleted: boolean = playlist.source.removeDeleted
+): Promise<SyncReport> {
+    const source = playlist.source;
+    const engine = registry.get(source.engine);
+    if (!engine?.playlist) throw new Error(`Playlists cannot be synced from ${source.engine}.`);
+
+    // Fetch the source playlist.
+    const upstream = await engine.playlist(source.url);
+    if (upstream == null) throw new Error(`Failed to fetch playlist ${source.url}.`);
+    const ids = upstream.tracks.map((track) => track.id);
+
+    // Find the new & deleted tracks.
+    const added = upstream.tracks.filter((track) => validate.track(track) &&
+        !source.trackIds.includes(track.id) &&
+        !playlist.tracks.some((other) => other.id == track.id));
+    const removed = removeDeleted ? playlist.tracks.filter((track) =>
+        source.trackIds.includes(track.id) && !ids.includes(track.id)) : [];
+
+    // Update the playlist.
+    const syncedAt = Date.now();
+    playlist.tracks = playlist.tracks
+        .filter((track) => !removed.includes(track))
+        .concat(added.map((track) => ({ ...trackFrom(track), addedAt: syncedAt })));
+
+    const report: SyncReport = { added, removed, syncedAt };
+    playlist.source = { ...source, trackIds: ids, syncedAt, report };
+
+    return report;
+}
+
+/**
+ * Syncs a playlist & saves the changes.
+ * @param playlist The playlist to sync.
+ * @param userId The ID of the user who started the sync.
+ * @param removeDeleted (optional) Should tracks deleted from the source be removed?
+ * @return What changed, or null if the playlist was changed during the sync.
+ */
+async function syncPlaylist(
+    playlist: Playlist, userId: string, removeDeleted?: boolean
+): Promise<SyncReport | null> {
+    const previous = playlist.version ?? null;
+    const report = await sync(playlist, removeDeleted);
+
+    // Save the playlist to the database.
+    const change = recordChange(playlist, userId, "sync");
+    if (!await database.updatePlaylist(playlist, previous)) return null;
+    notifyViewers(playlist, change);
+
+    return report;
+}
+
+/**
+ * Syncs all playlists which are due to be synced.
+ */
+async function syncAll(): Promise<void> {
+    for (const playlist of await database.getSyncedPlaylists()) {
+        if (playlist.source.syncedAt + syncInterval > Date.now()) continue;
+
+        try {
+            await syncPlaylist(playlist, playlist.owner);
+        } catch (error) {
+            logger.warn(`Failed to sync playlist ${playlist.id}.`, error);
+        }
+    }
+}
+
+// Set sync task.
+setInterval(() => {
+    syncAll().catch((error) => logger.warn("Failed to sync playlists.", error));
+}, syncInterval / 6);
+
+/**
+ * Sends the updated playlist to all users viewing it.
+ * @param playlist The changed playlist.
+ * @param change The change made to the playlist.
+ */
+function notifyViewers(playlist: Playlist, change: PlaylistChange): void {
+    for (const client of gateway.getViewers(playlist.id)) {
+        if (!canView(playlist, client.getUserId())) continue;
+        client.send(<PlaylistUpdatedMessage> {
+            type: "playlist-updated",
+            playlist: <Playlist> sanitize(playlist), change
+        });
+    }
+}
 
 /**
  * Creates a playlist.
@@ -37,6 +189,10 @@ async function createPlaylist(req: Request, rsp: Response): Promise<void> {
     // Change the playlist data.
     playlist.id = await database.generatePlaylistId();
     playlist.owner = user.userId;
+    playlist.collaborators = [];
+    playlist.changes = [];
+    playlist.version = 0;
+    delete playlist.source;
 
     // Validate the playlist data.
     if (!validate.playlist(playlist)) {
@@ -88,7 +244,7 @@ async function fetchPlaylist(req: Request, rsp: Response): Promise<void> {
         // Get the user from the database.
         const user = await database.getUserByToken(token);
         // Validate the user can view the playlist.
-        if (!user || user.userId != playlist.owner) {
+        if (!user || !canView(playlist, user.userId)) {
             rsp.status(404).send(constants.NO_RESULTS());
             return;
         }
@@ -114,8 +270,9 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
     // Pull parameters.
     const id = <string>req.params.id || "";
     const type = <string>req.query.type || "";
+    const version = req.query.version ? parseInt(<string>req.query.version) : null;
     // Validate parameters.
-    if (id == "" || type == "") {
+    if (id == "" || type == "" || Number.isNaN(version)) {
         rsp.status(400).send(constants.INVALID_ARGUMENTS());
         return;
     }
@@ -127,10 +284,18 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
         return;
     }
 
+    // Check if the playlist was changed since the client fetched it.
+    const previous = playlist.version ?? null;
+    if (version != null && version != (previous ?? 0)) {
+        rsp.status(409).send(constants.CONFLICT());
+        return;
+    }
+
     // Get the user from the database.
     const user = await database.getUserByToken(token);
     // Validate the user can edit the playlist.
-    if (!user || user.userId != playlist.owner) {
+    const role = user ? getRole(playlist, user.userId) : null;
+    if (role != "Owner" && (role != "Editor" || !editorChanges.includes(type))) {
         rsp.status(403).send(constants.NO_AUTHORIZATION());
         return;
     }
@@ -198,7 +363,8 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
 
             try {
                 // Add the song to the playlist.
-                playlist.tracks.push(modelFrom(body, constants.TRACK_MODEL) as Track);
+                const track = await enrich(trackFrom(body));
+                playlist.tracks.push({ ...track, addedAt: Date.now() });
             } catch {
                 rsp.status(400).send(constants.INVALID_ARGUMENTS());
                 return;
@@ -215,6 +381,79 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
             // Remove the song from the playlist.
             playlist.tracks.splice(body.index, 1);
             break;
+        case "move":
+            // Validate the body.
+            if (!isIndex(body.from, playlist.tracks.length) ||
+                !isIndex(body.to, playlist.tracks.length)) {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            // Move the song to the new index.
+            const [moved] = playlist.tracks.splice(body.from, 1);
+            playlist.tracks.splice(body.to, 0, moved);
+            break;
+        case "insert":
+            // Validate the body.
+            if (!isIndex(body.index, playlist.tracks.length + 1) ||
+                !Array.isArray(body.tracks) || !body.tracks.every(validate.track)) {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            try {
+                // Insert the songs at the index.
+                const inserted = body.tracks.map((track) =>
+                    ({ ...trackFrom(track), addedAt: Date.now() }));
+                playlist.tracks.splice(body.index, 0, ...inserted);
+            } catch {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            break;
+        case "remove-many":
+            // Validate the body.
+            if (!Array.isArray(body.indices) || !body.indices
+                .every((index) => isIndex(index, playlist.tracks.length))) {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            // Remove the songs from the playlist.
+            playlist.tracks = playlist.tracks
+                .filter((_, index) => !body.indices.includes(index));
+            break;
+        case "dedupe":
+            // Keep the first copy of each song.
+            playlist.tracks = playlist.tracks.filter((track, index) =>
+                playlist.tracks.findIndex((other) => other.id == track.id) == index);
+            break;
+        case "sort":
+            // Validate the body.
+            const sorter = Object.hasOwn(sorters, body.by) ? sorters[body.by] : null;
+            if (!sorter) {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            // Sort the songs in the playlist.
+            playlist.tracks.sort(sorter);
+            body.descending && playlist.tracks.reverse();
+            break;
+        case "source":
+            // Validate the body.
+            if (!playlist.source ||
+                (body.autoSync != undefined && typeof body.autoSync != "boolean") ||
+                (body.removeDeleted != undefined && typeof body.removeDeleted != "boolean")) {
+                rsp.status(400).send(constants.INVALID_ARGUMENTS());
+                return;
+            }
+
+            // Change the sync settings.
+            playlist.source.autoSync = body.autoSync ?? playlist.source.autoSync;
+            playlist.source.removeDeleted = body.removeDeleted ?? playlist.source.removeDeleted;
+            break;
         case "bulk":
             // Validate the body.
             if (typeof body != "object") {
@@ -226,7 +465,8 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
             const tracks = [];
             for (const track of body.tracks ?? [])
                 try {
-                    tracks.push(modelFrom(track, constants.TRACK_MODEL) as Track);
+                    if (!validate.metadata(track)) throw new Error("Invalid metadata.");
+                    tracks.push(trackFrom(track));
                 } catch {
                     rsp.status(400).send(constants.INVALID_ARGUMENTS());
                     return;
@@ -234,6 +474,8 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
 
             // Change the playlist data.
             playlist.tracks = tracks;
+            // Only the owner can change the details.
+            if (role != "Owner") break;
             playlist.isPrivate = body.isPrivate ?? playlist.isPrivate;
             playlist.name = body.name ?? playlist.name;
             playlist.description = body.description ?? playlist.description;
@@ -247,7 +489,192 @@ async function editPlaylist(req: Request, rsp: Response): Promise<void> {
     }
 
     // Save the playlist to the database.
-    await database.updatePlaylist(playlist);
+    const change = recordChange(playlist, user.userId, type);
+    if (!await database.updatePlaylist(playlist, previous)) {
+        rsp.status(409).send(constants.CONFLICT());
+        return;
+    }
+    notifyViewers(playlist, change);
+    // Send the playlist.
+    rsp.status(200).send(sanitize(playlist));
+}
+
+/**
+ * Syncs an imported playlist with its source.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function syncSource(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull parameters.
+    const id = <string>req.params.id || "";
+    const removeDeleted = req.body?.removeDeleted;
+    // Validate parameters.
+    if (removeDeleted != undefined && typeof removeDeleted != "boolean") {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the playlist from the database.
+    const playlist = await database.getPlaylist(id);
+    if (playlist == null || !playlist.source) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Validate the user can edit the playlist.
+    const user = await database.getUserByToken(token);
+    const role = user ? getRole(playlist, user.userId) : null;
+    if (role != "Owner" && role != "Editor") {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Sync the playlist.
+    let report: SyncReport | null = null;
+    try {
+        report = await syncPlaylist(playlist, user.userId, removeDeleted);
+    } catch (error) {
+        logger.debug(`Failed to sync playlist ${id}.`, error);
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Check if the playlist was changed during the sync.
+    if (report == null) {
+        rsp.status(409).send(constants.CONFLICT());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ report, playlist: sanitize(playlist) }));
+}
+
+/**
+ * Invites a friend to collaborate on a playlist.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function inviteCollaborator(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull parameters.
+    const id = <string>req.params.id || "";
+    const userId = <string>req.body.userId || "";
+    const role = <PlaylistRole>req.body.role || "Viewer";
+    // Validate parameters.
+    if (id == "" || userId == "" || !["Editor", "Viewer"].includes(role)) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the playlist from the database.
+    const playlist = await database.getPlaylist(id);
+    if (playlist == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Validate the user owns the playlist.
+    const user = await database.getUserByToken(token);
+    if (!user || user.userId != playlist.owner) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Check if the invited user is a friend.
+    const friends = await discord.getFriends(user);
+    const invited = await database.getUser(userId);
+    if (!invited || !friends?.find((friend) => friend.id == userId)) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Add or update the collaborator.
+    const collaborator: Collaborator = { userId, role, invitedAt: Date.now() };
+    playlist.collaborators = (playlist.collaborators ?? [])
+        .filter((user) => user.userId != userId)
+        .concat(collaborator);
+
+    // Add the playlist to the invited user.
+    if (!invited.playlists.includes(id)) {
+        invited.playlists.push(id);
+        await database.updateUser(invited);
+    }
+
+    // Save the playlist to the database.
+    const previous = playlist.version ?? null;
+    const change = recordChange(playlist, user.userId, "invite");
+    if (!await database.updatePlaylist(playlist, previous)) {
+        rsp.status(409).send(constants.CONFLICT());
+        return;
+    }
+    notifyViewers(playlist, change);
+    // Send the playlist.
+    rsp.status(200).send(sanitize(playlist));
+}
+
+/**
+ * Removes a collaborator from a playlist.
+ * Collaborators can remove themselves.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function removeCollaborator(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull parameters.
+    const id = <string>req.params.id || "";
+    const userId = <string>req.params.user || "";
+
+    // Get the playlist from the database.
+    const playlist = await database.getPlaylist(id);
+    if (playlist == null || !getRole(playlist, userId) || userId == playlist.owner) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Validate the user can remove the collaborator.
+    const user = await database.getUserByToken(token);
+    if (!user || (user.userId != playlist.owner && user.userId != userId)) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Remove the collaborator.
+    playlist.collaborators = playlist.collaborators
+        .filter((user) => user.userId != userId);
+
+    // Remove the playlist from the collaborator.
+    const removed = await database.getUser(userId);
+    if (removed?.playlists.includes(id)) {
+        removed.playlists.splice(removed.playlists.indexOf(id), 1);
+        await database.updateUser(removed);
+    }
+
+    // Save the playlist to the database.
+    const previous = playlist.version ?? null;
+    const change = recordChange(playlist, user.userId, "uninvite");
+    if (!await database.updatePlaylist(playlist, previous)) {
+        rsp.status(409).send(constants.CONFLICT());
+        return;
+    }
+    notifyViewers(playlist, change);
     // Send the playlist.
     rsp.status(200).send(sanitize(playlist));
 }
@@ -295,6 +722,15 @@ async function deletePlaylist(req: Request, rsp: Response): Promise<void> {
     user.playlists.splice(user.playlists.indexOf(id), 1);
     await database.updateUser(user);
 
+    // Remove the playlist from the collaborators.
+    for (const collaborator of playlist.collaborators ?? []) {
+        const invited = await database.getUser(collaborator.userId);
+        if (!invited?.playlists.includes(id)) continue;
+
+        invited.playlists.splice(invited.playlists.indexOf(id), 1);
+        await database.updateUser(invited);
+    }
+
     // Send a response.
     rsp.status(200).send(constants.SUCCESS());
 }
@@ -330,47 +766,144 @@ async function importPlaylist(req: Request, rsp: Response): Promise<void> {
     }
 
     // Identify the search engine to use.
-    const engine = identifyUrl(url);
-    if (engine == null) {
+    const engine = registry.fromUrl(url);
+    if (engine == null || !engine.playlist) {
         rsp.status(400).send(constants.INVALID_ARGUMENTS());
         return;
     }
 
-    // Parse the playlist into a Laudiolin playlist.
-    let playlist: Playlist | null = null;
-    switch (engine) {
-    case "YouTube":
-        playlist = await youtube.playlist(url);
-        break;
-    case "Spotify":
-        playlist = await spotify.playlist(url);
-        break;
+    // Import the playlist.
+    await startImport(rsp, user.userId, url, async (job) => {
+        // Parse the playlist into a Laudiolin playlist.
+        let playlist: Playlist | null = null;
+        try {
+            playlist = await engine.playlist(url, job);
+        } catch (error) {
+            logger.debug(`Failed to import playlist ${url}.`, error);
+        }
+
+        // Remember the source of the playlist.
+        playlist && (playlist.source = {
+            url, engine: identifyUrl(url),
+            trackIds: playlist.tracks.map((track) => track.id),
+            autoSync: req.body.autoSync == true,
+            removeDeleted: req.body.removeDeleted == true,
+            syncedAt: Date.now()
+        });
+
+        return playlist;
+    });
+}
+
+/**
+ * Starts a playlist import in the background.
+ * Sends the playlist if the import finishes quickly,
+ * otherwise the job, which is followed through '/playlist/import/:id'.
+ * @param rsp The response to send.
+ * @param owner The ID of the user importing the playlist.
+ * @param url The URL of the playlist, if it has one.
+ * @param load Loads the playlist & updates the progress of the job.
+ */
+export async function startImport(
+    rsp: Response, owner: string, url: string | null,
+    load: (job: ImportJob) => Promise<Playlist | null>
+): Promise<void> {
+    // Start the import.
+    const job: ImportJob = {
+        id: randomString(16), owner, url,
+        status: "Running", startedAt: Date.now(),
+        loaded: 0, total: null, skipped: []
+    };
+    imports.set(job.id, job);
+
+    // Wait for short imports to finish.
+    const task = runImport(job, load).catch((error) => {
+        logger.warn(`Failed to import playlist ${url ?? job.id}.`, error);
+        job.status = "Failed";
+    });
+    const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), importWait));
+    await Promise.race([task, timeout]);
+
+    switch (job.status) {
+        case "Running":
+            // Send the progress of the import.
+            rsp.status(202).send(constants.SUCCESS({ job }));
+            return;
+        case "Failed":
+            rsp.status(404).send(constants.NO_RESULTS());
+            return;
+        case "Done":
+            // Send the playlist.
+            rsp.status(201).send({ ...job.playlist, skipped: job.skipped });
+            return;
     }
+}
+
+/**
+ * Imports a playlist in the background.
+ * The job is updated as the import progresses.
+ * @param job The import job.
+ * @param load Loads the playlist.
+ */
+async function runImport(job: ImportJob, load: (job: ImportJob) => Promise<Playlist | null>): Promise<void> {
+    const playlist = await load(job);
 
     // Check if the playlist is null.
     if (playlist == null) {
-        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        job.status = "Failed";
         return;
     }
 
     // Generate the playlist data.
     playlist.id = await database.generatePlaylistId();
-    playlist.owner = user.userId;
+    playlist.owner = job.owner;
+    playlist.version = 0;
 
     // Check if the playlist is valid.
     if (!validate.playlist(playlist)) {
-        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        job.status = "Failed";
         return;
     }
 
     // Save the playlist to the database.
     await database.savePlaylist(playlist);
     // Add the playlist ID to the user.
+    const user = await database.getUser(job.owner);
     user.playlists.push(playlist.id);
     await database.updateUser(user);
 
-    // Send the playlist.
-    rsp.status(201).send(playlist);
+    job.playlist = playlist;
+    job.status = "Done";
+}
+
+/**
+ * Fetches the progress of a playlist import.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchImport(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Find the import.
+    const job = await imports.get(<string>req.params.id || "");
+    if (job == null || job.owner != user.userId) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ job }));
 }
 
 /* -------------------------------------------------- */
@@ -381,9 +914,13 @@ const app: Router = Router();
 /* Configure routes. */
 app.post("/playlist/create", createPlaylist);
 app.patch("/playlist/import", importPlaylist);
+app.get("/playlist/import/:id", fetchImport);
 app.get("/playlist/:id", fetchPlaylist);
 app.patch("/playlist/:id", editPlaylist);
 app.delete("/playlist/:id", deletePlaylist);
+app.post("/playlist/:id/sync", syncSource);
+app.post("/playlist/:id/collaborators", inviteCollaborator);
+app.delete("/playlist/:id/collaborators/:user", removeCollaborator);
 
 /* Export the router. */
 export default app;
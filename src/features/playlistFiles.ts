@@ -0,0 +1,489 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import express, { Request, Response, Router } from "express";
+import * as database from "features/database";
+import * as validate from "app/validate";
+
+import type { ImportJob, Playlist, SearchResult, Track } from "app/types";
+import { getToken, isUrl, sanitize, trackFrom } from "app/utils";
+import { canView, startImport } from "features/playlist";
+
+import * as registry from "engines/registry";
+import { bestMatch } from "filters/spotifySong";
+
+const maxEntries = 500; // The maximum number of tracks imported from a file.
+
+/**
+ * A track read from a playlist file.
+ * Only the fields found in the file are set.
+ */
+type Entry = {
+    title?: string;
+    artist?: string;
+    duration?: number;
+    location?: string;
+};
+
+/* The supported file formats. */
+const formats: {
+    [key: string]: {
+        type: string;
+        write: (playlist: Playlist, host: string) => string;
+        read: (file: string) => { name?: string; entries: Entry[] };
+    };
+} = {
+    m3u8: { type: "audio/x-mpegurl", write: writeM3u8, read: readM3u8 },
+    xspf: { type: "application/xspf+xml", write: writeXspf, read: readXspf },
+    json: { type: "application/json", write: writeJson, read: readJson },
+    csv: { type: "text/csv", write: writeCsv, read: readCsv }
+};
+
+/**
+ * Returns the URL which streams a track from this server.
+ * @param track The track to stream.
+ * @param host The base URL of the server.
+ */
+function streamUrl(track: Track, host: string): string {
+    return `${host}/stream?id=${encodeURIComponent(track.id)}`;
+}
+
+/**
+ * Writes a playlist as an extended M3U file.
+ * Entries point to the stream endpoint.
+ * @param playlist The playlist to write.
+ * @param host The base URL of the server.
+ */
+function writeM3u8(playlist: Playlist, host: string): string {
+    const lines = ["#EXTM3U", `#PLAYLIST:${playlist.name}`];
+    for (const track of playlist.tracks) {
+        lines.push(`#EXTINF:${track.duration},${track.artist} - ${track.title}`);
+        lines.push(streamUrl(track, host));
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Reads an M3U file.
+ * @param file The contents of the file.
+ */
+function readM3u8(file: string): { name?: string; entries: Entry[] } {
+    let name: string | undefined = undefined;
+    const entries: Entry[] = [];
+
+    let entry: Entry = {};
+    for (const line of file.split(/\r?\n/).map((line) => line.trim())) {
+        if (line.startsWith("#PLAYLIST:")) {
+            name = line.substring(10);
+        } else if (line.startsWith("#EXTINF:")) {
+            // Parse the track info. ('#EXTINF:123,Artist - Title')
+            const [duration, ...info] = line.substring(8).split(",");
+            const [artist, ...title] = info.join(",").split(" - ");
+
+            entry = title.length > 0 ? { artist, title: title.join(" - ") } : { title: artist };
+            if (parseInt(duration) > 0) entry.duration = parseInt(duration);
+        } else if (line != "" && !line.startsWith("#")) {
+            entries.push({ ...entry, location: line });
+            entry = {};
+        }
+    }
+
+    return { name, entries };
+}
+
+/**
+ * Writes a playlist as an XSPF file.
+ * @param playlist The playlist to write.
+ * @param host The base URL of the server.
+ */
+function writeXspf(playlist: Playlist, host: string): string {
+    const tracks = playlist.tracks.map((track) =>
+        [
+            "    <track>",
+            `      <location>${escapeXml(streamUrl(track, host))}</location>`,
+            `      <identifier>${escapeXml(track.url)}</identifier>`,
+            `      <title>${escapeXml(track.title)}</title>`,
+            `      <creator>${escapeXml(track.artist)}</creator>`,
+            track.album ? `      <album>${escapeXml(track.album)}</album>` : null,
+            `      <duration>${track.duration * 1000}</duration>`,
+            `      <image>${escapeXml(track.icon)}</image>`,
+            "    </track>"
+        ]
+            .filter((line) => line != null)
+            .join("\n")
+    );
+
+    return (
+        [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<playlist version="1" xmlns="http://xspf.org/ns/0/">`,
+            `  <title>${escapeXml(playlist.name)}</title>`,
+            `  <annotation>${escapeXml(playlist.description)}</annotation>`,
+            "  <trackList>",
+            ...tracks,
+            "  </trackList>",
+            "</playlist>"
+        ].join("\n") + "\n"
+    );
+}
+
+/**
+ * Reads an XSPF file.
+ * @param file The contents of the file.
+ */
+function readXspf(file: string): { name?: string; entries: Entry[] } {
+    const tag = (xml: string, name: string): string | undefined => {
+        const value = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1];
+        return value != undefined ? unescapeXml(value.trim()) : undefined;
+    };
+
+    const entries: Entry[] = [];
+    for (const [track] of file.matchAll(/<track>[\s\S]*?<\/track>/g)) {
+        const duration = parseInt(tag(track, "duration"));
+        entries.push({
+            title: tag(track, "title"),
+            artist: tag(track, "creator"),
+            duration: duration > 0 ? Math.floor(duration / 1000) : undefined,
+            location: tag(track, "identifier") ?? tag(track, "location")
+        });
+    }
+
+    // The playlist title comes before the track list.
+    const name = tag(file.split("<trackList>")[0], "title");
+    return { name, entries };
+}
+
+/**
+ * Writes a playlist as a JSON file.
+ * @param playlist The playlist to write.
+ */
+function writeJson(playlist: Playlist): string {
+    const { name, description, icon, tracks } = playlist;
+    return JSON.stringify({ name, description, icon, tracks }, null, 2);
+}
+
+/**
+ * Reads a JSON file.
+ * Accepts an exported playlist or a list of tracks.
+ * @param file The contents of the file.
+ */
+function readJson(file: string): { name?: string; entries: Entry[] } {
+    const data = JSON.parse(file);
+    const tracks: any[] = Array.isArray(data) ? data : data?.tracks ?? [];
+
+    return {
+        name: typeof data?.name == "string" ? data.name : undefined,
+        entries: tracks
+            .filter((track) => track && typeof track == "object")
+            .map((track) => ({
+                title: typeof track.title == "string" ? track.title : undefined,
+                artist: typeof track.artist == "string" ? track.artist : undefined,
+                duration: typeof track.duration == "number" ? track.duration : undefined,
+                location: typeof track.url == "string" ? track.url : typeof track.id == "string" ? track.id : undefined
+            }))
+    };
+}
+
+/**
+ * Writes a playlist as a CSV file.
+ * @param playlist The playlist to write.
+ */
+function writeCsv(playlist: Playlist): string {
+    const rows = [["title", "artist", "album", "duration", "url", "id"]];
+    for (const track of playlist.tracks) {
+        rows.push([track.title, track.artist, track.album ?? "", track.duration.toString(), track.url, track.id]);
+    }
+
+    return rows.map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Reads a CSV file.
+ * The first row names the columns.
+ * @param file The contents of the file.
+ */
+function readCsv(file: string): { name?: string; entries: Entry[] } {
+    const [header, ...rows] = parseCsv(file);
+    if (!header) return { entries: [] };
+
+    // Find the columns. Supports the names used by other apps.
+    const columns = header.map((name) => name.trim().toLowerCase());
+    const column = (...names: string[]) => columns.findIndex((name) => names.includes(name));
+    const title = column("title", "name", "track name");
+    const artist = column("artist", "artists", "artist name(s)");
+    const seconds = column("duration");
+    const milliseconds = column("duration (ms)");
+    const location = column("url", "uri", "location", "id");
+
+    return {
+        entries: rows.map((row) => ({
+            title: row[title] || undefined,
+            artist: row[artist] || undefined,
+            duration: parseInt(row[seconds]) || Math.floor(parseInt(row[milliseconds]) / 1000) || undefined,
+            location: row[location] || undefined
+        }))
+    };
+}
+
+/**
+ * Splits a CSV file into rows of values.
+ * @param file The contents of the file.
+ */
+function parseCsv(file: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [],
+        value = "",
+        quoted = false;
+
+    for (let i = 0; i < file.length; i++) {
+        const char = file[i];
+        if (quoted) {
+            if (char == '"' && file[i + 1] == '"') {
+                value += '"';
+                i++;
+            } else if (char == '"') quoted = false;
+            else value += char;
+        } else if (char == '"') quoted = true;
+        else if (char == ",") {
+            row.push(value);
+            value = "";
+        } else if (char == "\n") {
+            row.push(value.replace(/\r$/, ""));
+            value = "";
+            rows.push(row);
+            row = [];
+        } else value += char;
+    }
+
+    // Add the last row.
+    if (value != "" || row.length > 0) rows.push(row.concat(value));
+    return rows.filter((row) => row.some((value) => value != ""));
+}
+
+/**
+ * Escapes text for XML.
+ * @param text The text to escape.
+ */
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Reverts escaped XML text.
+ * @param text The text to unescape.
+ */
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * Escapes a value for CSV.
+ * @param value The value to escape.
+ */
+function escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Guesses the format of a playlist file.
+ * @param file The contents of the file.
+ */
+function detectFormat(file: string): string {
+    const start = file.trimStart();
+    if (start.startsWith("#EXTM3U")) return "m3u8";
+    if (start.startsWith("<")) return "xspf";
+    if (start.startsWith("{") || start.startsWith("[")) return "json";
+    return "csv";
+}
+
+/**
+ * Finds the track of a playlist file entry.
+ * Uses the link of the entry if it has one, otherwise searches for it.
+ * @param entry The entry to resolve.
+ */
+async function resolveEntry(entry: Entry): Promise<Track | null> {
+    // Check for a link to the track.
+    if (entry.location) {
+        let id = entry.location;
+        // Check for a link to this server's stream endpoint.
+        if (isUrl(id) && new URL(id).pathname == "/stream") id = new URL(id).searchParams.get("id") ?? id;
+
+        const resolved = isUrl(id) || !/[\\/]/.test(id) ? await registry.resolve(id).catch(() => null) : null;
+        const track = resolved ? await resolved.engine.fetchTrack(resolved.id).catch(() => null) : null;
+        if (track) return track;
+    }
+
+    // Search for the track.
+    if (!entry.title) return null;
+    const query = entry.artist ? `${entry.title} - ${entry.artist}` : entry.title;
+    const results = await registry
+        .get("All")
+        .search(query)
+        .catch(() => null);
+    if (!results) return null;
+
+    // Without an artist, the results cannot be compared.
+    if (!entry.artist) return results.top ?? null;
+    return bestMatch(
+        <SearchResult>{
+            title: entry.title,
+            artist: entry.artist,
+            duration: entry.duration ?? 0,
+            icon: "",
+            url: "",
+            id: ""
+        },
+        results.results
+    );
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Exports a playlist as a file.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function exportPlaylist(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const extension = (<string>req.query.format || "").toLowerCase();
+    const format = Object.hasOwn(formats, extension) ? formats[extension] : null;
+
+    // Validate arguments.
+    if (id == "" || !format) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the playlist from the database.
+    const playlist = await database.getPlaylist(id);
+    if (playlist == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Check if the user can view the playlist.
+    const token = getToken(req);
+    const user = token ? await database.getUserByToken(token) : null;
+    if (!canView(playlist, user?.userId ?? null)) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Write the playlist.
+    const name = playlist.name.replace(/[^\w\- ]/g, "").trim() || playlist.id;
+
+    rsp.status(200)
+        .type(format.type)
+        .attachment(`${name}.${extension}`)
+        .send(format.write(<Playlist>sanitize(playlist), constants.TARGET));
+}
+
+/**
+ * Imports a playlist from an uploaded file.
+ * The file is sent as the request body.
+ * Large files are imported in the background, like URL imports.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function uploadPlaylist(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const file: string = typeof req.body == "string" ? req.body : JSON.stringify(req.body ?? "");
+    const extension = (<string>req.query.format || detectFormat(file)).toLowerCase();
+    const format = Object.hasOwn(formats, extension) ? formats[extension] : null;
+
+    // Validate arguments.
+    if (file.trim() == "" || !format) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Read the file.
+    let read: { name?: string; entries: Entry[] };
+    try {
+        read = format.read(file);
+    } catch (error) {
+        logger.debug("Failed to read playlist file.", error);
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Import the playlist.
+    const name = <string>req.query.name || read.name || "Imported Playlist";
+    await startImport(rsp, user.userId, null, (job) => readPlaylist(name, read.entries.slice(0, maxEntries), job));
+}
+
+/**
+ * Creates a playlist from the entries of a file.
+ * @param name The name of the playlist.
+ * @param entries The entries to resolve.
+ * @param job The import job to update.
+ * @return The playlist, or null if no tracks were found.
+ */
+async function readPlaylist(name: string, entries: Entry[], job: ImportJob): Promise<Playlist | null> {
+    job.total = entries.length;
+
+    // Resolve the tracks.
+    const tracks: Track[] = [];
+    for (const entry of entries) {
+        const track = await resolveEntry(entry).catch(() => null);
+        if (track && validate.track(track)) {
+            tracks.push({ ...trackFrom(track), addedAt: Date.now() });
+        } else
+            job.skipped.push({
+                id: entry.location ?? "",
+                title: entry.title ?? null,
+                reason: "The track could not be found."
+            });
+        job.loaded++;
+    }
+
+    // Check if any tracks were found.
+    if (tracks.length == 0) return null;
+
+    return {
+        owner: job.owner,
+        id: "",
+        name,
+        description: "",
+        icon: tracks[0].icon,
+        isPrivate: false,
+        tracks,
+        collaborators: [],
+        changes: [],
+        version: 0
+    };
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/playlist/:id/export", exportPlaylist);
+app.post("/playlist/upload", express.text({ type: () => true, limit: "10mb" }), uploadPlaylist);
+
+/* Export the router. */
+export default app;
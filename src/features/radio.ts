@@ -0,0 +1,213 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { RadioPage, RadioSeed, SearchResult, User } from "app/types";
+import { getToken, identifyBrowseId, identifyId, shuffle } from "app/utils";
+import * as database from "features/database";
+import * as cursors from "features/cursors";
+import * as matches from "features/matches";
+import { canView } from "features/playlist";
+import { isDuplicate } from "filters/ranking";
+import enrich from "filters/enrich";
+
+import * as registry from "engines/registry";
+import * as ytmusic from "engines/ytmusic";
+import * as spotify from "engines/spotify";
+
+const pageSize = 25; // The number of tracks in each page.
+const seedLimit = 5; // The number of tracks picked from artists & playlists.
+const seedsPerPage = 3; // The number of seeds expanded for each page.
+const seedTypes: RadioSeed[] = ["track", "artist", "playlist"];
+
+/**
+ * The state of a radio between pages.
+ * @param seeds The tracks to find similar tracks of.
+ * @param played The tracks which should not be repeated.
+ */
+type Station = {
+    seeds: SearchResult[];
+    played: SearchResult[];
+};
+
+/**
+ * Fetches tracks similar to a track.
+ * Mixes YouTube Music's automix with Spotify's recommendations.
+ * @param seed The track to find similar tracks of.
+ */
+async function similar(seed: SearchResult): Promise<SearchResult[]> {
+    const track = await enrich(seed);
+
+    // Find the YouTube video of the track.
+    const videoId =
+        identifyId(track.id) == "YouTube"
+            ? track.id
+            : track.isrc
+            ? await matches.resolve({ ...track, id: track.isrc }).catch(() => null)
+            : null;
+
+    const [related, recommended] = await Promise.all([
+        videoId
+            ? ytmusic.upNext(videoId).catch((error) => {
+                  logger.debug(`Failed to fetch the up next of ${videoId}.`, error);
+                  return [];
+              })
+            : [],
+        track.isrc
+            ? spotify.recommendations([track.isrc], pageSize).catch((error) => {
+                  logger.debug(`Failed to fetch recommendations for ${track.isrc}.`, error);
+                  return [];
+              })
+            : []
+    ]);
+
+    // Alternate between the sources.
+    const results: SearchResult[] = [];
+    for (let i = 0; i < Math.max(related.length, recommended.length); i++) {
+        related[i] && results.push(related[i]);
+        recommended[i] && results.push(recommended[i]);
+    }
+
+    return results;
+}
+
+/**
+ * Loads the next page of a radio.
+ * The tracks of each page seed the following pages.
+ * @param station The radio to continue.
+ */
+async function nextPage(station: Station): Promise<RadioPage> {
+    const tracks: SearchResult[] = [];
+    for (let i = 0; i < seedsPerPage && tracks.length < pageSize; i++) {
+        const seed = station.seeds.shift();
+        if (!seed) break;
+
+        for (const track of await similar(seed)) {
+            if (tracks.length >= pageSize) break;
+
+            // Skip tracks which were already played.
+            if (station.played.some((played) => isDuplicate(played, track))) continue;
+
+            station.played.push(track);
+            tracks.push(track);
+        }
+    }
+
+    station.seeds.push(...tracks);
+    return {
+        tracks,
+        next: station.seeds.length > 0 ? cursors.save(() => nextPage(station)) : null
+    };
+}
+
+/**
+ * Starts a radio from seed tracks.
+ * @param seeds The tracks to start from.
+ * @param played The tracks which should not be repeated.
+ * @return The first page, or null if no tracks were found.
+ */
+export async function start(seeds: SearchResult[], played: SearchResult[]): Promise<RadioPage | null> {
+    if (seeds.length == 0) return null;
+
+    const page = await nextPage({
+        seeds: [...seeds],
+        played: [...seeds, ...played].filter((track) => track != null)
+    });
+    return page.tracks.length > 0 ? page : null;
+}
+
+/**
+ * Finds the seed tracks of a radio.
+ * @param type The type of seed.
+ * @param id The ID of the track, artist or playlist.
+ * @param engine The engine of the track or artist.
+ * @param user The user listening, if logged in.
+ */
+async function getSeeds(type: RadioSeed, id: string, engine: string, user: User | null): Promise<SearchResult[]> {
+    switch (type) {
+        case "track": {
+            const source = await registry.resolve(id, engine);
+            const track = source ? await source.engine.fetchTrack(source.id) : null;
+            return track ? [track] : [];
+        }
+        case "artist": {
+            const source = registry.get(engine || identifyBrowseId(id));
+            const artist = source?.artist ? await source.artist(id) : null;
+            return artist?.topTracks.slice(0, seedLimit) ?? [];
+        }
+        case "playlist": {
+            const playlist = await database.getPlaylist(id);
+            if (!playlist || !canView(playlist, user?.userId ?? null)) return [];
+            return shuffle([...playlist.tracks]).slice(0, seedLimit);
+        }
+    }
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches a page of tracks similar to a seed.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function radio(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+    const type: RadioSeed = <RadioSeed>req.query.type || "track";
+    const engine: string = <string>req.query.engine || "";
+    const page: string = <string>req.query.page || undefined;
+
+    // Validate arguments.
+    if (id == "" || !seedTypes.includes(type)) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Continue from the previous page.
+    if (page) {
+        const result = await cursors.load<RadioPage>(page).catch((error) => {
+            logger.warn("Failed to continue a radio.", error);
+            return null;
+        });
+
+        if (!result?.tracks.length) {
+            rsp.status(404).send(constants.NO_RESULTS());
+        } else {
+            rsp.status(200).send(constants.SUCCESS(result));
+        }
+        return;
+    }
+
+    // Get the user, if logged in.
+    const token = getToken(req);
+    const user = token ? await database.getUserByToken(token) : null;
+
+    let result: RadioPage | null = null;
+    try {
+        // Skip the seeds & the tracks the user recently played.
+        const seeds = await getSeeds(type, id, engine, user);
+        result = await start(seeds, user?.recentlyPlayed ?? []);
+    } catch (error) {
+        logger.warn(`Failed to start a radio from ${id}.`, error);
+    }
+
+    // Check if any tracks were found.
+    if (!result?.tracks.length) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS(result));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/radio/:id", radio);
+
+/* Export the router. */
+export default app;
@@ -0,0 +1,372 @@
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import { Request, Response, Router } from "express";
+
+import type { Recap, SharedRecap, SocialStatus, User } from "app/types";
+import { getToken, randomString } from "app/utils";
+import * as database from "features/database";
+import * as discord from "features/discord";
+import { getUserById } from "features/gateway";
+import { recentUsers } from "features/social";
+
+const topLimit = 5; // The number of top tracks & artists.
+const refreshInterval = 24 * 60 * 60e3; // How often recaps of the current year are regenerated.
+const recapWait = 5e3; // How long a new recap can generate before the request is answered.
+const statuses: SocialStatus[] = ["Nobody", "Friends", "Everyone"]; // From most to least private.
+
+const generating: { [key: string]: Promise<Recap> } = {}; // Recaps being generated.
+
+/**
+ * Returns the time range of a year.
+ * @param year The year.
+ */
+function yearRange(year: number): { start: number; end: number } {
+    return { start: Date.UTC(year, 0), end: Date.UTC(year + 1, 0) };
+}
+
+/**
+ * Checks if a stored recap is still up-to-date.
+ * @param recap The stored recap.
+ */
+function isFresh(recap: Recap): boolean {
+    return recap.generatedAt >= yearRange(recap.year).end || recap.generatedAt > Date.now() - refreshInterval;
+}
+
+/**
+ * Generates the recap of a user from their listening history.
+ * @param userId The ID of the user.
+ * @param year The year to recap.
+ */
+async function buildRecap(userId: string, year: number): Promise<Recap> {
+    const { start, end } = yearRange(year);
+
+    const [topTracks, topArtists, totals, months, first, sessions, previous] = await Promise.all([
+        database.getTopTracks(userId, start, topLimit, end),
+        database.getTopArtists(userId, start, topLimit, end),
+        database.getListeningTotals(userId, start, end),
+        database.getListeningMonths(userId, start, end),
+        database.getFirstPlay(userId, start, end),
+        database.countSessions(userId, start, end),
+        database.getRecap(userId, year)
+    ]);
+
+    // Find the month with the most plays.
+    const topMonth = months.reduce((top, month) => (month.plays > (top?.plays ?? 0) ? month : top), null);
+
+    const recap: Recap = {
+        userId,
+        year,
+        generatedAt: Date.now(),
+        topTracks,
+        topArtists,
+        minutes: Math.round(totals.listened / 60e3),
+        topMonth: topMonth?.month ?? null,
+        firstTrack: first?.track ?? null,
+        sessions,
+        // Keep the public snapshot of the previous recap.
+        shareId: previous?.shareId
+    };
+
+    await database.saveRecap(recap);
+    return recap;
+}
+
+/**
+ * Generates the recap of a user in the background.
+ * Only one recap is generated per user & year at once.
+ * @param userId The ID of the user.
+ * @param year The year to recap.
+ */
+export function generate(userId: string, year: number): Promise<Recap> {
+    const key = `${userId}-${year}`;
+    if (generating[key]) return generating[key];
+
+    const task = buildRecap(userId, year).finally(() => delete generating[key]);
+    return (generating[key] = task);
+}
+
+/**
+ * Regenerates the outdated recaps of users who listened this year or last year.
+ */
+async function generateAll(): Promise<void> {
+    const current = new Date().getUTCFullYear();
+    for (const year of [current - 1, current]) {
+        const { start, end } = yearRange(year);
+        for (const userId of await database.getListeners(start, end)) {
+            const stored = await database.getRecap(userId, year);
+            if (stored && isFresh(stored)) continue;
+
+            try {
+                await generate(userId, year);
+            } catch (error) {
+                logger.warn(`Failed to generate the ${year} recap of ${userId}.`, error);
+            }
+        }
+    }
+}
+
+// Set generation task.
+setInterval(() => {
+    generateAll().catch((error) => logger.warn("Failed to generate recaps.", error));
+}, refreshInterval / 24);
+
+/**
+ * Returns the current social status of a user.
+ * @param userId The ID of the user.
+ * @return The social status, or null if the user has not been online recently.
+ */
+function getSocialStatus(userId: string): SocialStatus | null {
+    const clients = getUserById(userId);
+    if (clients?.length) return clients[0].socialStatus;
+
+    return recentUsers[userId]?.socialStatus ?? null;
+}
+
+/**
+ * Checks if a user can view a shared recap.
+ * @param shared The snapshot of the recap.
+ * @param viewer The user viewing the recap, if logged in.
+ */
+async function canView(shared: SharedRecap, viewer: User | null): Promise<boolean> {
+    const { userId } = shared.recap;
+    if (viewer?.userId == userId) return true;
+
+    // The stricter of the shared & the current visibility applies.
+    const current = getSocialStatus(userId);
+    const status =
+        current && statuses.indexOf(current) < statuses.indexOf(shared.socialStatus) ? current : shared.socialStatus;
+
+    switch (status) {
+        case "Everyone":
+            return true;
+        case "Friends": {
+            if (!viewer) return false;
+            const friends = (await discord.getFriends(viewer)) ?? [];
+            return friends.some((friend) => friend.id == userId);
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Returns the year from a request.
+ * Defaults to the current year.
+ * @param value The year parameter.
+ * @return The year, or null if it is invalid.
+ */
+function parseYear(value: any): number | null {
+    const current = new Date().getUTCFullYear();
+    if (value == undefined || value == "") return current;
+
+    const year = parseInt(String(value));
+    return year >= 2000 && year <= current ? year : null;
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches the recap of a user.
+ * Stored recaps are refreshed in the background.
+ * New recaps are generated in the background if they take too long.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchRecap(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const year = parseYear(req.query.year);
+
+    // Validate arguments.
+    if (year == null) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Check for a stored recap.
+    const stored = await database.getRecap(user.userId, year);
+    if (stored) {
+        rsp.status(200).send(constants.SUCCESS({ recap: stored }));
+        return;
+    }
+
+    // Wait for quick recaps to generate.
+    const task = generate(user.userId, year).catch((error) => {
+        logger.warn(`Failed to generate the ${year} recap of ${user.userId}.`, error);
+        return null;
+    });
+    const timeout = new Promise<undefined>((resolve) => setTimeout(() => resolve(undefined), recapWait));
+    const recap = await Promise.race([task, timeout]);
+
+    if (recap === undefined) {
+        // Let the client check again later.
+        rsp.status(202).send(constants.SUCCESS({ recap: null }));
+    } else if (recap == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+    } else {
+        rsp.status(200).send(constants.SUCCESS({ recap }));
+    }
+}
+
+/**
+ * Creates a public snapshot of the user's recap.
+ * The visibility defaults to the user's social status.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function shareRecap(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const year = parseYear(req.body.year);
+    const visibility: SocialStatus | undefined = req.body.visibility;
+
+    // Validate arguments.
+    if (year == null || (visibility != undefined && !statuses.includes(visibility))) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Check if the recap was generated.
+    const recap = await database.getRecap(user.userId, year);
+    if (!recap) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Save a snapshot of the recap.
+    // Sharing again updates the snapshot.
+    recap.shareId = recap.shareId ?? randomString(16);
+    const shared: SharedRecap = {
+        shareId: recap.shareId,
+        sharedAt: Date.now(),
+        // Offline users are hidden, like on the gateway.
+        socialStatus: visibility ?? getSocialStatus(user.userId) ?? "Nobody",
+        recap
+    };
+    await database.saveSharedRecap(shared);
+    await database.saveRecap(recap);
+
+    rsp.status(200).send(
+        constants.SUCCESS({
+            shareId: shared.shareId,
+            url: `${constants.TARGET}/recap/${shared.shareId}`
+        })
+    );
+}
+
+/**
+ * Removes the public snapshot of the user's recap.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function unshareRecap(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (!user) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const year = parseYear(req.query.year);
+
+    // Check if the recap was shared.
+    const recap = year == null ? null : await database.getRecap(user.userId, year);
+    if (!recap?.shareId) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Remove the snapshot.
+    await database.deleteSharedRecap(recap.shareId);
+    recap.shareId = null;
+    await database.saveRecap(recap);
+
+    rsp.status(200).send(constants.SUCCESS());
+}
+
+/**
+ * Fetches a shared recap.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchSharedRecap(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id = <string>req.params.id || "";
+    const token = getToken(req);
+
+    // Get the snapshot & the viewer.
+    const shared = await database.getSharedRecap(id);
+    const viewer = token ? await database.getUserByToken(token) : null;
+    if (!shared || !(await canView(shared, viewer))) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Get the owner of the recap.
+    const owner = await database.getUser(shared.recap.userId);
+    if (!owner) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    rsp.status(200).send(
+        constants.SUCCESS({
+            user: {
+                userId: owner.userId,
+                username: owner.username,
+                avatar: owner.avatar
+            },
+            recap: shared.recap,
+            sharedAt: shared.sharedAt
+        })
+    );
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/user/recap", fetchRecap);
+app.post("/user/recap/share", shareRecap);
+app.delete("/user/recap/share", unshareRecap);
+app.get("/recap/:id", fetchSharedRecap);
+
+/* Export the router. */
+export default app;
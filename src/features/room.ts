@@ -0,0 +1,436 @@
+/* Imports. */
+import constants from "app/constants";
+import { logger } from "app/index";
+import { Request, Response, Router } from "express";
+
+import type { Client } from "features/gateway";
+import type { Lyrics, LyricsLineMessage, RoomInfo, RoomMessage, SyncMessage, Track } from "app/types";
+import { randomString } from "app/utils";
+import { getLyrics } from "features/lyrics";
+import * as history from "features/history";
+
+export const rooms = new Map<string, Room>(); // Rooms which are open.
+
+/**
+ * Creates a new room hosted by the client.
+ * @param host The client hosting the room.
+ */
+export function createRoom(host: Client): Room {
+    // Generate a unique room ID.
+    let id = randomString(8);
+    while (rooms.has(id)) id = randomString(8);
+
+    // Create the room.
+    const room = new Room(id, host);
+    rooms.set(id, room);
+    logger.debug(`Room ${id} was created by ${host.getUserId()}.`);
+
+    return room;
+}
+
+/**
+ * Returns the room with the specified ID.
+ * @param id The room ID.
+ */
+export function getRoom(id: string): Room | null {
+    return rooms.get(id) ?? null;
+}
+
+/**
+ * Returns the room hosted by the specified user.
+ * @param userId The host's user ID.
+ */
+export function getRoomByHost(userId: string): Room | null {
+    return [...rooms.values()].find((room) => room.hostId == userId) ?? null;
+}
+
+export class Room {
+    /* Host information. */
+    hostId: string;
+    host: Client | null;
+    private closeTimeout: NodeJS.Timeout | null = null;
+
+    /* Player information. */
+    listeningTo: Track | null = null;
+    progress: number = 0;
+    paused: boolean = true;
+    private updatedAt: number = Date.now();
+
+    /* Lyrics information. */
+    private lyrics: Lyrics | null = null;
+    private lyricsTimeout: NodeJS.Timeout | null = null;
+
+    /* Room information. */
+    members: { [key: string]: Client } = {};
+    queue: Track[] = [];
+    skipVotes: string[] = [];
+
+    constructor(readonly id: string, host: Client) {
+        this.hostId = host.getUserId();
+        this.host = host;
+
+        // Start with the host's player state.
+        this.update(false);
+        this.join(host);
+    }
+
+    /*
+     * Getters.
+     */
+
+    /**
+     * Checks if the client is hosting the room.
+     * @param client The client to check.
+     */
+    isHost(client: Client): boolean {
+        return this.host == client;
+    }
+
+    /**
+     * Returns the user IDs of all members.
+     */
+    getMemberIds(): string[] {
+        const ids = Object.values(this.members).map((client) => client.getUserId());
+        return [...new Set(ids)];
+    }
+
+    /**
+     * Returns the public information of the room.
+     * @param withMembers Should the members be included?
+     */
+    asInfo(withMembers: boolean = true): RoomInfo {
+        return {
+            id: this.id,
+            host: this.hostId,
+            hostOnline: this.host != null,
+            members: withMembers ? this.getMemberIds() : undefined,
+            queue: this.queue,
+            listeningTo: this.listeningTo,
+            progress: this.progress,
+            paused: this.paused,
+            skipVotes: this.skipVotes.length
+        };
+    }
+
+    /*
+     * Membership.
+     */
+
+    /**
+     * Adds a client to the room.
+     * @param client The client joining.
+     */
+    join(client: Client): void {
+        // Leave the client's previous room.
+        if (client.room && client.room != this) client.room.leave(client);
+
+        // Record the listen along session.
+        if (!this.members[client.getId()] && !this.isHost(client)) history.listenAlong(client, this.hostId, this.id);
+
+        this.members[client.getId()] = client;
+        client.room = this;
+
+        // Sync the client with the room.
+        this.broadcast();
+        if (!this.isHost(client)) this.syncClient(client, true);
+    }
+
+    /**
+     * Removes a client from the room.
+     * @param client The client leaving.
+     * @param disconnected Was the client disconnected?
+     */
+    leave(client: Client, disconnected: boolean = false): void {
+        delete this.members[client.getId()];
+        client.room = null;
+
+        // Remove the user's skip vote.
+        const userId = client.getUserId();
+        if (!this.getMemberIds().includes(userId)) this.skipVotes = this.skipVotes.filter((id) => id != userId);
+
+        // Notify the client that it stopped listening along.
+        if (!disconnected) {
+            client.send(<SyncMessage>{
+                type: "sync",
+                track: null,
+                progress: -1,
+                paused: true
+            });
+            client.send(<RoomMessage>{
+                type: "room",
+                room: null
+            });
+        }
+
+        // Check if the host left.
+        if (this.isHost(client)) {
+            this.host = null;
+
+            if (disconnected) {
+                // Wait for the host to reconnect.
+                this.closeTimeout = setTimeout(() => this.close(), constants.ROOM_GRACE_PERIOD);
+            } else {
+                // Pass the room onto another member.
+                const next = Object.values(this.members)[0];
+                if (next) this.transferHost(next);
+                else this.close();
+                return;
+            }
+        }
+
+        this.broadcast();
+    }
+
+    /**
+     * Re-attaches the host after reconnecting.
+     * @param client The host's new client.
+     */
+    reconnect(client: Client): void {
+        // Check if the room was waiting for the host.
+        if (this.host || !this.closeTimeout) return;
+
+        // Cancel the room closing.
+        clearTimeout(this.closeTimeout);
+        this.closeTimeout = null;
+
+        // Set the new host.
+        this.host = client;
+        this.join(client);
+        this.syncClient(client, true);
+    }
+
+    /**
+     * Makes another member the host of the room.
+     * @param client The client to make the host.
+     */
+    transferHost(client: Client): void {
+        // Check if the client is a member.
+        if (!this.members[client.getId()]) return;
+
+        this.host = client;
+        this.hostId = client.getUserId();
+
+        // Sync the new host with the room.
+        this.syncClient(client, true);
+        this.broadcast();
+    }
+
+    /**
+     * Closes the room.
+     * Members stop listening along.
+     */
+    close(): void {
+        clearTimeout(this.closeTimeout);
+        clearTimeout(this.lyricsTimeout);
+        rooms.delete(this.id);
+
+        // Remove all members from the room.
+        for (const client of Object.values(this.members)) {
+            client.room = null;
+            client.send(<SyncMessage>{
+                type: "sync",
+                track: null,
+                progress: -1,
+                paused: true
+            });
+            client.send(<RoomMessage>{
+                type: "room",
+                room: null
+            });
+        }
+
+        this.members = {};
+        logger.debug(`Room ${this.id} was closed.`);
+    }
+
+    /*
+     * Queue.
+     */
+
+    /**
+     * Adds a track to the end of the queue.
+     * @param track The track to add.
+     */
+    addToQueue(track: Track): void {
+        this.queue.push(track);
+        this.broadcast();
+    }
+
+    /**
+     * Registers a vote to skip the current track.
+     * Skips once a majority of members have voted.
+     * @param client The client voting.
+     */
+    voteSkip(client: Client): void {
+        const userId = client.getUserId();
+        if (!this.skipVotes.includes(userId)) this.skipVotes.push(userId);
+
+        // Check if the majority has voted.
+        if (this.skipVotes.length > this.getMemberIds().length / 2) this.skip();
+        else this.broadcast();
+    }
+
+    /**
+     * Plays the next track in the queue.
+     */
+    skip(): void {
+        this.skipVotes = [];
+        this.listeningTo = this.queue.shift() ?? null;
+        this.progress = 0;
+        this.paused = this.listeningTo == null;
+        this.updatedAt = Date.now();
+        this.loadLyrics();
+
+        // Sync every member, including the host.
+        for (const client of Object.values(this.members)) this.syncClient(client, true);
+        this.broadcast();
+    }
+
+    /*
+     * Synchronization.
+     */
+
+    /**
+     * Updates the room's state from the host.
+     * @param seek Should members seek to the host's progress?
+     */
+    update(seek: boolean = true): void {
+        const host = this.host;
+        if (!host) return;
+
+        // Check if the host moved onto a new track.
+        const changed = host.listeningTo?.id != this.listeningTo?.id;
+        if (changed) {
+            this.skipVotes = [];
+            // Remove the track from the queue if it was next.
+            if (this.queue[0]?.id == host.listeningTo?.id) this.queue.shift();
+        }
+
+        this.listeningTo = host.listeningTo;
+        this.progress = host.progress;
+        this.paused = host.paused;
+        this.updatedAt = Date.now();
+
+        // Follow the host's position in the lyrics.
+        if (changed) this.loadLyrics();
+        else this.scheduleLyrics();
+
+        // Sync all members with the host.
+        for (const client of Object.values(this.members)) !this.isHost(client) && this.syncClient(client, seek);
+    }
+
+    /**
+     * Sends the room's player state to a client.
+     * @param client The client to sync.
+     * @param seek Should the client seek to the progress?
+     */
+    syncClient(client: Client, seek: boolean = false): void {
+        client.send(<SyncMessage>{
+            type: "sync",
+            track: this.listeningTo,
+            progress: this.progress,
+            paused: this.paused,
+            seek
+        });
+    }
+
+    /**
+     * Loads the synced lyrics of the current track.
+     */
+    private loadLyrics(): void {
+        clearTimeout(this.lyricsTimeout);
+        this.lyrics = null;
+
+        const track = this.listeningTo;
+        if (!track) return;
+
+        getLyrics(track.id, track)
+            .then((lyrics) => {
+                // Check if the track is still playing.
+                if (this.listeningTo?.id != track.id) return;
+
+                this.lyrics = lyrics?.synced ? lyrics : null;
+                this.scheduleLyrics();
+            })
+            .catch((err) => logger.debug(err));
+    }
+
+    /**
+     * Sends the current lyrics line to all members.
+     * Schedules the next line to be sent.
+     */
+    private scheduleLyrics(): void {
+        clearTimeout(this.lyricsTimeout);
+        if (!this.lyrics || this.paused) return;
+
+        // Find the line at the current position.
+        const lines = this.lyrics.lines;
+        const position = this.progress * 1000 + (Date.now() - this.updatedAt);
+        let index = -1;
+        while (index + 1 < lines.length && lines[index + 1].time <= position) index++;
+
+        // Send the line to all members.
+        const message = <LyricsLineMessage>{
+            type: "lyrics-line",
+            line: lines[index] ?? null,
+            index
+        };
+        for (const client of Object.values(this.members)) client.send(message);
+
+        // Schedule the next line.
+        const next = lines[index + 1];
+        if (next) this.lyricsTimeout = setTimeout(() => this.scheduleLyrics(), next.time - position);
+    }
+
+    /**
+     * Sends the room's information to all members.
+     */
+    broadcast(): void {
+        const message = <RoomMessage>{
+            type: "room",
+            room: this.asInfo()
+        };
+
+        for (const client of Object.values(this.members)) client.send(message);
+    }
+}
+
+/* -------------------------------------------------- */
+
+/**
+ * Fetches the room with the specified ID.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchRoom(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const id: string = <string>req.params.id || "";
+
+    // Validate arguments.
+    if (id == "") {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the room.
+    const room = getRoom(id);
+    if (room == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Send the room.
+    // Only members can see who is in the room.
+    rsp.status(200).send(constants.SUCCESS({ room: room.asInfo(false) }));
+}
+
+/* -------------------------------------------------- */
+
+/* Create a router. */
+const app: Router = Router();
+
+/* Configure routes. */
+app.get("/room/:id", fetchRoom);
+
+/* Export the router. */
+export default app;
@@ -1,13 +1,13 @@
 /* Imports. */
+import { logger } from "app/index";
 import constants from "app/constants";
-import { SearchEngine, SearchResult, SearchResults } from "../types.js";
+import { SearchEngine, SearchResult, SearchResults, SearchType, Suggestions, Track } from "../types.js";
 import { Request, Response, Router } from "express";
 
-import * as smart from "engines/smart";
-import * as youtube from "engines/youtube";
-import * as spotify from "engines/spotify";
-
-import { identifyId } from "app/utils";
+import * as registry from "engines/registry";
+import rank from "filters/ranking";
+import enrich from "filters/enrich";
+import { Cache } from "features/cache";
 
 export const blankResult: SearchResult = {
     artist: "",
@@ -21,6 +21,27 @@ export const noResults: SearchResults = {
     top: blankResult,
     results: [blankResult]
 };
+export const searchTypes: SearchType[] = ["songs", "videos", "albums", "playlists", "artists"];
+
+// Cached first pages of searches.
+const searches = new Cache<SearchResults>("search", 10 * 60e3, 500);
+// Cached suggestions by engine & prefix.
+const suggestions = new Cache<Suggestions>("suggestions", 60e3, 1000);
+
+/**
+ * Checks if search results contain no items.
+ * @param results The search results.
+ */
+function isEmpty(results: SearchResults | null): boolean {
+    if (results == null || results == noResults) return true;
+
+    const tracks = results.results
+        .filter((result) => result && result != blankResult);
+    return tracks.length == 0 &&
+        !results.albums?.length &&
+        !results.artists?.length &&
+        !results.playlists?.length;
+}
 
 /**
  * Perform a search request.
@@ -34,32 +55,89 @@ async function searchFor(req: Request, rsp: Response): Promise<void> {
 
     // Pull filter settings.
     const filter: string = <string>req.query.filter || "none";
+    const type: SearchType = <SearchType>req.query.type || "songs";
+    const page: string = <string>req.query.page || undefined;
+
+    // Find the engine to search with.
+    const search = registry.get(engine);
+    if (search == null || !searchTypes.includes(type)) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
 
     // Perform a search request.
+    // Later pages are kept by their cursors.
+    const perform = async () => {
+        const result = await search.search(query, {
+            smartFilter: filter == "smart",
+            type: req.query.type ? type : undefined,
+            page
+        });
+
+        // Merge duplicate results.
+        if (result) {
+            result.results = rank(result.results);
+            result.top = result.results[0] ?? result.top;
+        }
+
+        return result;
+    };
+
     let result: SearchResults = noResults;
-    switch (engine) {
-        case "YouTube":
-            result = await youtube.search(query);
-            break;
-        case "Spotify":
-            result = await spotify.search(query, filter == "smart");
-            break;
-        case "SoundCloud":
-            // TODO: Perform SoundCloud search.
-            break;
-        case "All":
-            result = await smart.search(query);
-            break;
+    try {
+        result = page ? await perform() : await searches.fetch(
+            `${engine}:${req.query.type ?? ""}:${filter}:${query}`, perform);
+    } catch (error) {
+        logger.warn(`Failed to search ${engine}.`, error);
     }
 
     // Check if the result is empty.
-    if (result == noResults) {
+    if (isEmpty(result)) {
         rsp.status(404).send(constants.NO_RESULTS());
     } else {
         rsp.status(301).send(result);
     }
 }
 
+/**
+ * Completes a partial search query.
+ * Suggestions are cached by prefix for a short time.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function suggest(req: Request, rsp: Response): Promise<void> {
+    // Pull arguments.
+    const partial: string = (req.params.partial || "").trim().toLowerCase();
+    const engine: string = <string>req.query.query || "All";
+
+    // Find the engine to complete with.
+    const source = registry.get(engine);
+    if (partial == "" || !source?.suggest) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the suggestions.
+    let result: Suggestions | null = null;
+    try {
+        result = await suggestions.fetch(`${engine}:${partial}`, async () => {
+            const result = await source.suggest(partial);
+            // Remove duplicate completions.
+            result.queries = [...new Set(result.queries)];
+            return result;
+        });
+    } catch (error) {
+        logger.debug(`Failed to fetch suggestions from ${engine}.`, error);
+    }
+
+    if (result == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ suggestions: result }));
+}
+
 /**
  * Fetches a track by URL.
  * @param req The HTTP request.
@@ -68,7 +146,7 @@ async function searchFor(req: Request, rsp: Response): Promise<void> {
 async function fetchTrack(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const id: string = req.params.id;
-    let engine: string = <string> req.query.query || "";
+    const engine: string = <string> req.query.query || "";
 
     // Check if the arguments are valid.
     if (id == null) {
@@ -77,25 +155,29 @@ async function fetchTrack(req: Request, rsp: Response): Promise<void> {
     }
 
     // Identify engine.
-    if (engine == "") {
-        engine = identifyId(id);
+    const resolved = await registry.resolve(id, engine)
+        .catch(() => null);
+    if (resolved == null) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
     // Fetch the track.
-    let result = null;
-    switch (engine) {
-    case "YouTube":
-        result = await smart.fetchTrack(id, engine);
-        break;
-    case "Spotify":
-        result = await spotify.searchIsrc(id);
-        break;
+    let result: Track | null = null;
+    try {
+        result = await resolved.engine.fetchTrack(resolved.id);
+    } catch (error) {
+        logger.debug(`Failed to fetch track ${id}.`, error);
     }
 
     if (result == null) {
         rsp.status(404).send(constants.NO_RESULTS());
+        return;
     }
 
+    // Fill in the missing metadata.
+    result = await enrich(result);
+
     // Send the result.
     rsp.status(301).send(result);
 }
@@ -108,7 +190,7 @@ async function fetchTrack(req: Request, rsp: Response): Promise<void> {
 async function reverseTrack(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const id: string = req.params.id;
-    let engine: string = <string> req.query.query || "";
+    const engine: string = <string> req.query.query || "";
 
     // Check if the arguments are valid.
     if (id == null) {
@@ -117,16 +199,19 @@ async function reverseTrack(req: Request, rsp: Response): Promise<void> {
     }
 
     // Identify engine.
-    if (engine == "") {
-        engine = identifyId(id);
+    const resolved = await registry.resolve(id, engine)
+        .catch(() => null);
+    if (resolved == null || !resolved.engine.reverse) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
     // Fetch the track.
-    let result = null;
-    switch (engine) {
-        case "Spotify":
-            result = await spotify.spotifyId(id);
-            break;
+    let result: string | null = null;
+    try {
+        result = await resolved.engine.reverse(resolved.id);
+    } catch (error) {
+        logger.debug(`Failed to reverse track ${id}.`, error);
     }
 
     // Check if the result is empty.
@@ -144,6 +229,7 @@ const app: Router = Router();
 
 /* Configure routes. */
 app.get("/search/:query", searchFor);
+app.get("/search/suggest/:partial", suggest);
 app.get("/fetch/:id", fetchTrack);
 app.get("/reverse/:id", reverseTrack);
 
@@ -2,7 +2,7 @@
 import { Request, Response, Router } from "express";
 import constants from "app/constants";
 
-import type { BasicUser, OfflineUser, OnlineUser } from "app/types";
+import type { BasicUser, OfflineUser, OnlineUser, User } from "app/types";
 import { getToken } from "app/utils";
 import * as discord from "features/discord";
 import * as database from "features/database";
@@ -11,6 +11,31 @@ export let availableUsers: BasicUser[] = []; // Users which are online.
 export let onlineUsers: { [key: string]: OnlineUser } = {}; // Users which are actively using Laudiolin.
 export let recentUsers: { [key: string]: OfflineUser } = {}; // Users which have been online recently.
 
+/**
+ * Filters users by who can see them.
+ * Public users are always visible, 'Friends' users only to their friends.
+ * @param users The users to filter.
+ * @param viewer The user viewing, or null if not logged in.
+ */
+export async function visibleTo<T extends OnlineUser | OfflineUser>(
+    users: T[], viewer: User | null
+): Promise<T[]> {
+    // Filter out users which are not public.
+    let visible = users.filter(user => user.socialStatus == "Everyone");
+    // Validate users which are friends.
+    const friendUsers = users.filter(user => user.socialStatus == "Friends");
+    if (viewer && friendUsers.length != 0) {
+        // Fetch the friends of the user.
+        const friends = (await discord.getFriends(viewer) ?? [])
+            .map(friend => friend.id);
+
+        // Add users which are friends of the viewer.
+        visible = visible.concat(friendUsers.filter(user => friends.includes(user.userId)));
+    }
+
+    return visible;
+}
+
 /* -------------------------------------------------- */
 
 /**
@@ -61,25 +86,9 @@ async function recent(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const token = getToken(req);
 
-    // Get the offline users.
-    let users = Object.values(recentUsers);
-    const allUsers = Object.values(recentUsers);
-    // Filter out users which are not public.
-    users = users.filter(user => user.socialStatus == "Everyone");
-    // Validate users which are friends.
-    if (token && token != "") {
-        // Check if there are any online users which are 'Friends'.
-        const friendUsers = allUsers.filter(user => user.socialStatus == "Friends");
-        if (friendUsers.length != 0) {
-            // Fetch the friends of the user.
-            const user = await database.getUserByToken(token);
-            let friends = (await discord.getFriends(user))
-                .map(friend => friend.id);
-
-            // Add friends to the original array which are friends of the user.
-            users = users.concat(friendUsers.filter(user => friends.includes(user.userId)));
-        }
-    }
+    // Filter out users which the user cannot see.
+    const user = token && token != "" ? await database.getUserByToken(token) : null;
+    const users = await visibleTo(Object.values(recentUsers), user);
 
     // Send the users.
     rsp.status(200).send(constants.SUCCESS({ recentUsers: users }));
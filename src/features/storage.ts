@@ -0,0 +1,247 @@
+// This file manages the downloaded audio files.
+// Files are tracked in an index and evicted when the storage is full.
+
+/* Imports. */
+import { logger } from "app/index";
+import constants from "app/constants";
+import type { AudioSource, CachedTrack, SearchEngine } from "app/types";
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, createReadStream } from "node:fs";
+import { rename, rm, stat, writeFile } from "node:fs/promises";
+import { randomString } from "app/utils";
+
+const indexPath = `${constants.STORAGE_PATH}/index.json`;
+
+let index: { [key: string]: CachedTrack } = {}; // Cached files by file name.
+const pending: { [key: string]: Promise<string> } = {}; // Downloads in progress.
+let saveTimeout: NodeJS.Timeout | null = null;
+
+load(); // Load the storage index.
+
+/**
+ * Loads the index from the disk.
+ * Removes files which were left behind.
+ */
+function load(): void {
+    // Create the storage directory.
+    if (!existsSync(constants.STORAGE_PATH)) mkdirSync(constants.STORAGE_PATH, { recursive: true });
+
+    // Read the index.
+    try {
+        if (existsSync(indexPath)) index = JSON.parse(readFileSync(indexPath, "utf-8"));
+    } catch (error) {
+        logger.warn("Failed to read the storage index.", error);
+    }
+
+    // Remove entries which no longer exist.
+    for (const file in index) {
+        if (!existsSync(getPath(file))) delete index[file];
+    }
+
+    // Check for files which are not in the index.
+    for (const file of readdirSync(constants.STORAGE_PATH)) {
+        if (file == "index.json" || index[file]) continue;
+
+        // Remove failed downloads.
+        if (file.includes(".tmp")) {
+            rm(getPath(file), { force: true }).catch((err) => logger.warn(err));
+            continue;
+        }
+
+        // Add the file to the index.
+        const { size, mtimeMs } = statSync(getPath(file));
+        index[file] = {
+            id: file.split(".")[0],
+            file,
+            size,
+            engine: null,
+            bitrate: null,
+            created: mtimeMs,
+            lastAccess: mtimeMs
+        };
+    }
+
+    save();
+    evict();
+    logger.info(`Loaded ${Object.keys(index).length} cached tracks.`);
+}
+
+/**
+ * Writes the index to the disk.
+ * Writes are batched together.
+ */
+function save(): void {
+    if (saveTimeout) return;
+
+    saveTimeout = setTimeout(() => {
+        saveTimeout = null;
+        writeFile(indexPath, JSON.stringify(index)).catch((err) =>
+            logger.warn("Failed to save the storage index.", err)
+        );
+    }, 5e3);
+}
+
+/**
+ * Returns the path of a file in the storage.
+ * @param file The file name.
+ */
+export function getPath(file: string): string {
+    return `${constants.STORAGE_PATH}/${file}`;
+}
+
+/**
+ * Returns the total size of all cached files.
+ */
+export function totalSize(): number {
+    return Object.values(index).reduce((total, entry) => total + entry.size, 0);
+}
+
+/**
+ * Returns all cached files.
+ * Sorted from most to least recently used.
+ */
+export function list(): CachedTrack[] {
+    return Object.values(index).sort((a, b) => b.lastAccess - a.lastAccess);
+}
+
+/**
+ * Returns the cached file, if it exists.
+ * Marks the file as recently used.
+ * @param file The file name.
+ */
+export function get(file: string): CachedTrack | null {
+    const entry = index[file];
+    if (!entry) return null;
+
+    // Check if the file still exists.
+    if (!existsSync(getPath(file))) {
+        delete index[file];
+        save();
+        return null;
+    }
+
+    entry.lastAccess = Date.now();
+    save();
+    return entry;
+}
+
+/**
+ * Returns the cached audio of a track.
+ * @param file The file name.
+ * @param mimeType The MIME type of the file.
+ * @returns The audio source, or null if the file is not cached.
+ */
+export function source(file: string, mimeType: string = "audio/mpeg"): AudioSource | null {
+    const entry = get(file);
+    if (!entry) return null;
+
+    const path = getPath(file);
+    return {
+        length: entry.size,
+        mimeType,
+        open: async (start, end) => createReadStream(path, { start, end })
+    };
+}
+
+/**
+ * Downloads a file into the storage.
+ * Concurrent downloads of the same file share one download.
+ * @param file The file name.
+ * @param engine The engine the track is from.
+ * @param bitrate The bitrate of the audio in kbps.
+ * @param writer Writes the audio to the given path.
+ * @return The path to the file.
+ */
+export async function download(
+    file: string,
+    engine: SearchEngine,
+    bitrate: number | null,
+    writer: (path: string) => Promise<void>
+): Promise<string> {
+    // Check if the file is cached.
+    if (get(file)) return getPath(file);
+    // Check if the file is being downloaded.
+    if (pending[file]) return await pending[file];
+
+    const promise = (pending[file] = (async () => {
+        // Write to a unique temporary file.
+        const temporary = getPath(`${file}.${randomString(6)}.tmp`);
+
+        try {
+            await writer(temporary);
+            await rename(temporary, getPath(file));
+        } catch (error) {
+            // Remove the failed download.
+            await rm(temporary, { force: true });
+            throw error;
+        }
+
+        // Add the file to the index.
+        const { size } = await stat(getPath(file));
+        index[file] = {
+            id: file.split(".")[0],
+            file,
+            size,
+            engine,
+            bitrate,
+            created: Date.now(),
+            lastAccess: Date.now()
+        };
+
+        // Keep the new file, even if it is larger than the storage.
+        save();
+        evict(file);
+        return getPath(file);
+    })());
+
+    try {
+        return await promise;
+    } finally {
+        delete pending[file];
+    }
+}
+
+/**
+ * Removes cached files.
+ * @param id The track ID to remove the files of. Removes all files if null.
+ * @return The number of removed files.
+ */
+export async function purge(id: string | null = null): Promise<number> {
+    const files = Object.values(index).filter((entry) => id == null || entry.id == id);
+
+    // Remove the files.
+    for (const entry of files) await remove(entry.file);
+
+    return files.length;
+}
+
+/**
+ * Removes a file from the storage.
+ * @param file The file name.
+ */
+async function remove(file: string): Promise<void> {
+    delete index[file];
+    save();
+    await rm(getPath(file), { force: true });
+}
+
+/**
+ * Removes the least recently used files.
+ * Runs until the storage is below the maximum size.
+ * @param keep (optional) A file which should not be removed.
+ */
+function evict(keep: string | null = null): void {
+    const maxSize = constants.STORAGE_MAX_SIZE * 1024 * 1024;
+
+    let size = totalSize();
+    const entries = list()
+        .reverse()
+        .filter((entry) => entry.file != keep);
+    while (size > maxSize && entries.length > 0) {
+        const entry = entries.shift();
+        size -= entry.size;
+
+        remove(entry.file).catch((err) => logger.warn(err));
+        logger.debug(`Evicted ${entry.file} from the storage.`);
+    }
+}
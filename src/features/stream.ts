@@ -1,10 +1,11 @@
 /* Imports. */
+import { logger } from "app/index";
 import constants from "app/constants";
 import { Request, Response, Router } from "express";
-import * as youtube from "engines/youtube";
-import * as spotify from "engines/spotify";
-import { identifyId } from "app/utils";
-import Format from "youtubei.js/dist/src/parser/classes/misc/Format";
+import * as registry from "engines/registry";
+import * as transcode from "features/transcode";
+import type { AudioSource } from "app/types";
+import type { Readable } from "stream";
 
 /**
  * Download the specified video.
@@ -14,43 +15,47 @@ import Format from "youtubei.js/dist/src/parser/classes/misc/Format";
 async function download(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const id: string = <string>req.query.id || "";
-    let source: string = <string>req.query.engine || "";
+    const source: string = <string>req.query.engine || "";
+    const options = transcode.parseOptions(
+        <string>req.query.format || "", <string>req.query.bitrate || "");
 
     // Validate arguments.
-    if (id == "") {
+    if (id == "" || options == null) {
         rsp.status(400).send(constants.INVALID_ARGUMENTS());
         return;
     }
 
     // Identify source.
-    if (source == "") {
-        source = identifyId(id);
+    const resolved = await registry.resolve(id, source)
+        .catch(() => null);
+    if (resolved == null || !resolved.engine.download) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
     // Download the video.
     let path: string = "";
-    switch (source) {
-        case "All":
-        case "YouTube":
-            path = await youtube.download(id);
-            break;
-        case "Spotify":
-            path = await spotify.download(id);
-            break;
+    try {
+        path = await resolved.engine.download(resolved.id, options);
+    } catch (error) {
+        logger.debug(`Failed to download track ${id}.`, error);
     }
 
     // Check if the path is empty.
     if (path == "") {
-        rsp.status(404).send(constants.INVALID_ARGUMENTS());
+        rsp.status(404).send(constants.NO_RESULTS());
         return;
     }
 
     // Serve the file.
-    rsp.status(200).sendFile(path);
+    rsp.status(200)
+        .type(transcode.mimeType(options.format))
+        .sendFile(path);
 }
 
 /**
  * Streams the specified video to the response.
+ * The audio is piped through as it arrives.
  * @param req The HTTP request.
  * @param rsp The new response.
  */
@@ -58,7 +63,7 @@ async function stream(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const id: string = <string>req.query.id || "";
     const quality: string = <string>req.query.quality || "High";
-    let source: string = <string>req.query.engine || "";
+    const source: string = <string>req.query.engine || "";
 
     // Validate arguments.
     if (id == "") {
@@ -67,71 +72,67 @@ async function stream(req: Request, rsp: Response): Promise<void> {
     }
 
     // Identify source.
-    if (source == "") {
-        source = identifyId(id);
+    const resolved = await registry.resolve(id, source)
+        .catch(() => null);
+    if (resolved == null || !resolved.engine.stream) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
-    // Check for a range.
-    const range = req.range(Infinity, { combine: true });
-    let start = 0, end = 3e5;
-    if (range) {
-        start = range[0].start;
-        end = range[0].end;
+    // Find the audio source.
+    let audio: AudioSource | null = null;
+    try {
+        audio = await resolved.engine.stream(resolved.id, quality);
+    } catch (error) {
+        logger.debug(`Failed to stream track ${id}.`, error);
     }
 
-    if (end == Infinity) end = start + 3e5;
-
-    // Check if the range is valid.
-    if (start < 0 || end < 0 || start > end) {
-        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+    // Check if the audio was found.
+    if (audio == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
         return;
     }
 
-    // Download the video.
-    let data: { buffer: Uint8Array, data: Format };
-    let bytes: Uint8Array = null;
-    let length: number = 0;
-    switch (source) {
-        case "YouTube":
-            data = await youtube.stream(id, start, end, quality);
-            bytes = data.buffer;
-            break;
-        case "Spotify":
-            data = await spotify.stream(id, start, end, quality);
-            bytes = data.buffer; length = data.data.content_length;
-            break;
+    // Check for a range.
+    const length = audio.length;
+    const range = req.range(length, { combine: true });
+    // Check if the range can be satisfied.
+    if (range == -1) {
+        rsp.writeHead(416, { "Content-Range": `bytes */${length}` });
+        rsp.end();
+        return;
     }
 
-    // Check if the bytes are empty.
-    if (bytes == null) {
-        rsp.status(404).send(constants.INVALID_ARGUMENTS());
+    // Malformed ranges are ignored.
+    const partial = Array.isArray(range) && range.type == "bytes";
+    const start = partial ? range[0].start : 0;
+    const end = partial ? range[0].end : length - 1;
+
+    // Open the audio stream.
+    let data: Readable;
+    try {
+        data = await audio.open(start, end);
+    } catch (error) {
+        logger.debug(`Failed to open the audio of track ${id}.`, error);
+
+        // The response can't be changed once it started.
+        if (rsp.headersSent) rsp.destroy();
+        else rsp.status(502).send(constants.NO_RESULTS());
         return;
     }
 
-    // Set the length.
-    length = data.data.content_length;
-    // Validate the end length.
-    if (end > length) end = length;
-
     // Prepare the headers.
-    if (range) {
-        rsp.writeHead(206, {
-            'Content-Range': 'bytes ' + start + '-' + (end - 1) + '/' + length,
-            'Content-Length': length,
-            'Accept-Ranges': 'bytes',
-            'Content-Type': 'audio/mpeg'
-        });
-    } else {
-        rsp.writeHead(200, {
-            "Content-Length": length,
-            "Content-Type": "audio/mpeg",
-            "Transfer-Encoding": "chunked",
-            "Accept-Ranges": "bytes"
-        });
-    }
-    // Send the bytes.
-    rsp.write(bytes);
-    rsp.end();
+    rsp.writeHead(partial ? 206 : 200, {
+        ...(partial ? { "Content-Range": `bytes ${start}-${end}/${length}` } : {}),
+        "Content-Length": end - start + 1,
+        "Content-Type": audio.mimeType,
+        "Accept-Ranges": "bytes"
+    });
+
+    // Pipe the audio to the response.
+    data.on("error", () => rsp.destroy());
+    rsp.on("close", () => data.destroy());
+    data.pipe(rsp);
 }
 
 /**
@@ -142,7 +143,7 @@ async function stream(req: Request, rsp: Response): Promise<void> {
 async function cache(req: Request, rsp: Response): Promise<void> {
     // Pull arguments.
     const id: string = <string>req.query.id || "";
-    let source: string = <string>req.query.engine || "";
+    const source: string = <string>req.query.engine || "";
 
     // Validate arguments.
     if (id == "") {
@@ -151,18 +152,20 @@ async function cache(req: Request, rsp: Response): Promise<void> {
     }
 
     // Identify source.
-    if (source == "") {
-        source = identifyId(id);
+    const resolved = await registry.resolve(id, source)
+        .catch(() => null);
+    if (resolved == null || !resolved.engine.download) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
     // Download the video.
-    switch (source) {
-        case "YouTube":
-            await youtube.download(id);
-            break;
-        case "Spotify":
-            await spotify.download(id);
-            break;
+    try {
+        await resolved.engine.download(resolved.id);
+    } catch (error) {
+        logger.debug(`Failed to cache track ${id}.`, error);
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
     }
 
     // Send a response if unable to stream.
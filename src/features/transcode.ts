@@ -0,0 +1,203 @@
+// This file converts downloaded audio into the requested output format.
+// Converted files are tagged with the track's metadata.
+
+/* Imports. */
+import { logger } from "app/index";
+import type { AudioFormat, OutputOptions, Track } from "app/types";
+
+import { writeFile, rm } from "node:fs/promises";
+import ffmpeg, { FfprobeData } from "fluent-ffmpeg";
+
+/* The default output options. */
+export const defaultOutput: OutputOptions = { format: "mp3", bitrate: 128 };
+/* The bitrates which can be requested. */
+export const bitrates = [64, 96, 128, 160, 192, 256, 320];
+
+/*
+ * Encoder settings per output format.
+ * Ogg files (opus & vorbis) keep their cover as a base64 METADATA_BLOCK_PICTURE tag.
+ * ffmpeg can't write it from an image input, and passing it as a tag
+ * overflows the argument limit for larger covers, so those files have no cover.
+ */
+const encoders: {
+    [key in AudioFormat]: {
+        codec: string;
+        source: string;
+        container: string;
+        mimeType: string;
+        cover: boolean;
+    };
+} = {
+    mp3: { codec: "libmp3lame", source: "mp3", container: "mp3", mimeType: "audio/mpeg", cover: true },
+    opus: { codec: "libopus", source: "opus", container: "opus", mimeType: "audio/ogg", cover: false },
+    ogg: { codec: "libvorbis", source: "vorbis", container: "ogg", mimeType: "audio/ogg", cover: false },
+    m4a: { codec: "aac", source: "aac", container: "ipod", mimeType: "audio/mp4", cover: true },
+    flac: { codec: "flac", source: "flac", container: "flac", mimeType: "audio/flac", cover: true }
+};
+
+/**
+ * Parses output options from request parameters.
+ * @param format The requested format.
+ * @param bitrate The requested bitrate.
+ * @return The options, or null if they are invalid.
+ */
+export function parseOptions(format: string = "", bitrate: string = ""): OutputOptions | null {
+    const options = { ...defaultOutput };
+
+    // Validate the format.
+    if (format != "") {
+        if (!Object.hasOwn(encoders, format)) return null;
+        options.format = <AudioFormat>format;
+    }
+
+    // Validate the bitrate.
+    if (bitrate != "") {
+        options.bitrate = parseInt(bitrate);
+        if (!bitrates.includes(options.bitrate)) return null;
+    }
+
+    return options;
+}
+
+/**
+ * Returns the storage file name of a track.
+ * The default output keeps the plain name used for streaming.
+ * @param id The ID of the track.
+ * @param options The output options.
+ */
+export function fileName(id: string, options: OutputOptions = defaultOutput): string {
+    if (options.format == defaultOutput.format && options.bitrate == defaultOutput.bitrate) return `${id}.mp3`;
+    // Lossless files do not vary by bitrate.
+    if (options.format == "flac") return `${id}.flac`;
+
+    return `${id}.${options.bitrate}.${options.format}`;
+}
+
+/**
+ * Returns the MIME type of an output format.
+ * @param format The output format.
+ */
+export function mimeType(format: AudioFormat): string {
+    return encoders[format].mimeType;
+}
+
+/**
+ * Reads the audio codec & bitrate (in kbps) of a file.
+ * @param path The path to the file.
+ */
+function probe(path: string): Promise<{ codec: string; bitrate: number } | null> {
+    return new Promise((resolve) => {
+        ffmpeg.ffprobe(path, (err, data: FfprobeData) => {
+            if (err) return resolve(null);
+
+            const audio = data.streams.find((stream) => stream.codec_type == "audio");
+            resolve(
+                audio
+                    ? {
+                          codec: audio.codec_name,
+                          bitrate: Math.round(parseInt(String(audio.bit_rate ?? data.format.bit_rate)) / 1000)
+                      }
+                    : null
+            );
+        });
+    });
+}
+
+/**
+ * Downloads the track's cover art next to the output.
+ * @param track The track to download the cover of.
+ * @param output The path of the output file.
+ * @return The path to the cover, or null if it could not be downloaded.
+ */
+async function downloadCover(track: Track, output: string): Promise<string | null> {
+    if (!track.icon) return null;
+
+    try {
+        const response = await fetch(track.icon);
+        if (!response.ok) return null;
+
+        const path = `${output}.cover`;
+        await writeFile(path, Buffer.from(await response.arrayBuffer()));
+        return path;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Converts audio into the requested format.
+ * Embeds the track's metadata & cover art.
+ * Audio already in the requested codec is copied without re-encoding.
+ * @param input The path to the downloaded audio.
+ * @param output The path to write the converted audio to.
+ * @param options The output options.
+ * @param track The track being converted.
+ */
+export async function convert(
+    input: string,
+    output: string,
+    options: OutputOptions,
+    track: Track | null
+): Promise<void> {
+    const encoder = encoders[options.format];
+    const command = ffmpeg(input);
+
+    // Check if the audio can be passed through.
+    const source = await probe(input);
+    const passthrough =
+        source != null &&
+        source.codec == encoder.source &&
+        (options.format == "flac" || source.bitrate <= options.bitrate);
+
+    // Add the cover art.
+    const cover = track && encoder.cover ? await downloadCover(track, output) : null;
+    if (cover) {
+        command
+            .input(cover)
+            .outputOptions([
+                "-map",
+                "0:a",
+                "-map",
+                "1:v",
+                "-c:v",
+                "mjpeg",
+                "-disposition:v",
+                "attached_pic",
+                "-metadata:s:v",
+                "comment=Cover (front)"
+            ]);
+    } else command.noVideo();
+
+    // Add the track metadata.
+    if (track)
+        command.outputOptions([
+            "-metadata",
+            `title=${track.title}`,
+            "-metadata",
+            `artist=${track.artist}`,
+            ...(track.album ? ["-metadata", `album=${track.album}`] : []),
+            ...(track.year ? ["-metadata", `date=${track.year}`] : []),
+            ...(track.genre ? ["-metadata", `genre=${track.genre}`] : [])
+        ]);
+    if (options.format == "mp3") command.outputOptions(["-id3v2_version", "3"]);
+
+    // Configure the encoder.
+    if (passthrough) command.audioCodec("copy");
+    else {
+        command.audioCodec(encoder.codec);
+        if (options.format != "flac") command.audioBitrate(options.bitrate);
+        command.audioFrequency(options.format == "opus" ? 48000 : 44100).audioChannels(2);
+    }
+
+    // Convert the audio.
+    await new Promise<void>((resolve, reject) => {
+        command
+            .on("end", () => resolve())
+            .on("error", (err) => reject(err))
+            .format(encoder.container)
+            .save(output);
+    }).finally(() => {
+        // Delete the cover art.
+        cover && rm(cover, { force: true }).catch((err) => logger.warn(err));
+    });
+}
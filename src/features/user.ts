@@ -3,8 +3,69 @@ import { logger } from "app/index";
 import constants from "app/constants";
 import { Request, Response, Router } from "express";
 
-import { getToken, sanitize } from "app/utils";
+import type { FavoritesMessage, FavoritesQuery, FollowedArtist, Track, User } from "app/types";
+import { getToken, identifyBrowseId, sanitize, trackFrom } from "app/utils";
+import * as validate from "app/validate";
 import * as database from "features/database";
+import * as gateway from "features/gateway";
+import enrich from "filters/enrich";
+import * as registry from "engines/registry";
+
+const pageLimit = 100; // The maximum number of favorites sent at once.
+const sorts = ["added", "title", "artist", "duration"]; // The orders of favorites.
+const followLimit = 100; // The maximum number of artists a user can follow.
+
+/**
+ * Moves the liked tracks stored on a user into the favorites collection.
+ * Older accounts kept their liked tracks on the user.
+ * @param user The user to migrate. This object is updated.
+ */
+async function migrateFavorites(user: User): Promise<void> {
+    if (!user.likedSongs?.length) return;
+
+    // Keep the order the tracks were liked in.
+    const start = Date.now() - user.likedSongs.length;
+    await database.addFavorites(user.userId, user.likedSongs
+        .filter((track) => typeof track?.id == "string")
+        .map((track, index) => ({ ...track, addedAt: start + index })));
+
+    user.likedSongs = [];
+    await database.updateUser(user);
+}
+
+/**
+ * Returns the most recent of a user's liked tracks.
+ * Used by older clients which read the liked tracks from the user.
+ * @param user The user.
+ * @return The tracks, the number of liked tracks & the offset of the next page.
+ */
+async function latestFavorites(user: User): Promise<{ tracks: Track[], total: number, next: number | null }> {
+    let tracks: Track[] = [], total = 0;
+    if (user.likedSongs?.length) {
+        // Accounts which weren't migrated keep the oldest tracks first.
+        tracks = [...user.likedSongs].reverse().slice(0, pageLimit);
+        total = user.likedSongs.length;
+    } else {
+        ({ tracks, total } = await database.getFavorites(user.userId, {
+            sort: "added", descending: true, offset: 0, limit: pageLimit
+        }));
+    }
+
+    return { tracks, total, next: tracks.length < total ? tracks.length : null };
+}
+
+/**
+ * Notifies the user's clients of changed favorites.
+ * @param userId The ID of the user.
+ * @param action Were the tracks liked or unliked?
+ * @param tracks The changed tracks.
+ */
+function notifyFavorites(userId: string, action: "like" | "unlike", tracks: Track[]): void {
+    if (tracks.length == 0) return;
+    gateway.broadcast(userId, <FavoritesMessage> {
+        type: "favorites", action, tracks
+    });
+}
 
 /**
  * Fetches the specified user.
@@ -44,6 +105,14 @@ async function fetch(req: Request, rsp: Response): Promise<void> {
         removePrivate = true;
     }
 
+    // Only the user's own requests migrate their liked tracks.
+    if (!removePrivate) await migrateFavorites(user);
+
+    // Add the latest liked tracks for older clients.
+    // The rest are fetched from '/user/favorites'.
+    const { tracks, total, next } = await latestFavorites(user);
+    publicUser.likedSongs = tracks;
+
     if (removePrivate) {
         publicUser.playlists = [];
         for (const playlist of user.playlists) {
@@ -54,7 +123,7 @@ async function fetch(req: Request, rsp: Response): Promise<void> {
     }
 
     // Send the user.
-    rsp.status(301).send(publicUser);
+    rsp.status(301).send({ ...publicUser, favorites: { total, next } });
 }
 
 /**
@@ -127,6 +196,7 @@ async function auth(req: Request, rsp: Response): Promise<void> {
 
 /**
  * Modifies a user's favorite tracks.
+ * Sends the changed track & the new number of favorites.
  * @param req The HTTP request.
  * @param rsp The new response.
  */
@@ -156,27 +226,220 @@ async function favorite(req: Request, rsp: Response): Promise<void> {
         return;
     }
 
+    await migrateFavorites(user);
+
     // Perform the operation on the user's favorites.
     const track = req.body;
+    let changed: Track | null = null;
     if (operation == "add") {
-        // Check if the track is already in the favorites.
-        if (user.likedSongs.find(t => t.id == track.id)) {
+        // Validate the track.
+        if (!validate.track(track)) {
             rsp.status(400).send(constants.INVALID_ARGUMENTS());
             return;
         }
 
         // Add the track to the favorites.
-        user.likedSongs.push(track);
+        const added = await database.addFavorites(user.userId, [await enrich(trackFrom(track))]);
+        // Check if the track is already in the favorites.
+        if (added.length == 0) {
+            rsp.status(400).send(constants.INVALID_ARGUMENTS());
+            return;
+        }
+
+        notifyFavorites(user.userId, "like", added);
+        changed = added[0];
     } else {
         // Remove the track from the favorites.
-        user.likedSongs = user.likedSongs.filter(t => t.id != track.id);
+        const removed = await database.removeFavorites(user.userId, [track?.id]);
+        notifyFavorites(user.userId, "unlike", removed);
+        changed = removed[0] ?? null;
+    }
+
+    // Send the changed track.
+    const total = await database.countFavorites(user.userId);
+    rsp.status(200).send(constants.SUCCESS({ track: changed, total }));
+}
+
+/**
+ * Fetches a page of the user's favorite tracks.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function fetchFavorites(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const query: FavoritesQuery = {
+        sort: <FavoritesQuery["sort"]> req.query.sort || "added",
+        descending: (<string>req.query.order || "desc") == "desc",
+        search: <string>req.query.query || undefined,
+        offset: parseInt(<string>req.query.offset) || 0,
+        limit: parseInt(<string>req.query.limit) || 50
+    };
+
+    // Validate arguments.
+    if (!sorts.includes(query.sort) || query.offset < 0 ||
+        query.limit < 1 || query.limit > pageLimit) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (user == null) {
+        rsp.status(404).send(constants.INVALID_TOKEN());
+        return;
+    }
+
+    // Fetch the favorites.
+    await migrateFavorites(user);
+    const { tracks, total } = await database.getFavorites(user.userId, query);
+    const next = query.offset + tracks.length < total ? query.offset + tracks.length : null;
+
+    rsp.status(200).send(constants.SUCCESS({ tracks, total, next }));
+}
+
+/**
+ * Adds or removes many favorite tracks at once.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function editFavorites(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Validate the body.
+    const adding = req.method == "POST";
+    const valid = adding ?
+        Array.isArray(req.body?.tracks) && req.body.tracks.every(validate.track) :
+        Array.isArray(req.body?.ids) && req.body.ids.every((id) => typeof id == "string");
+    if (!valid) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
     }
 
-    // Update the user in the database.
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (user == null) {
+        rsp.status(404).send(constants.INVALID_TOKEN());
+        return;
+    }
+    await migrateFavorites(user);
+
+    // Perform the operation on the user's favorites.
+    if (adding) {
+        const tracks = await database.addFavorites(user.userId, await Promise.all(
+            req.body.tracks.map((track) => enrich(trackFrom(track)))));
+        notifyFavorites(user.userId, "like", tracks);
+
+        rsp.status(200).send(constants.SUCCESS({ tracks }));
+    } else {
+        const tracks = await database.removeFavorites(user.userId, req.body.ids);
+        // Check if any of the tracks were favorites.
+        if (tracks.length == 0) {
+            rsp.status(404).send(constants.NO_RESULTS());
+            return;
+        }
+
+        notifyFavorites(user.userId, "unlike", tracks);
+        rsp.status(200).send(constants.SUCCESS({ tracks }));
+    }
+}
+
+/**
+ * Follows an artist.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function followArtist(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Pull arguments.
+    const id: string = req.body?.id;
+    const engine: string = req.body?.engine || identifyBrowseId(id ?? "");
+
+    // Validate arguments.
+    const source = registry.get(engine);
+    if (typeof id != "string" || id == "" || !source?.artist) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (user == null) {
+        rsp.status(404).send(constants.INVALID_TOKEN());
+        return;
+    }
+
+    // Check if the user can follow more artists.
+    const following = user.followedArtists ?? [];
+    if (following.length >= followLimit) {
+        rsp.status(400).send(constants.INVALID_ARGUMENTS());
+        return;
+    }
+
+    // Fetch the artist.
+    const artist = await source.artist(id).catch(() => null);
+    if (artist == null) {
+        rsp.status(404).send(constants.NO_RESULTS());
+        return;
+    }
+
+    // Add the artist.
+    if (!following.some((followed) => followed.id == artist.id)) {
+        following.push(<FollowedArtist> {
+            id: artist.id, name: artist.name,
+            icon: artist.icon, engine
+        });
+        user.followedArtists = following;
+        await database.updateUser(user);
+    }
+
+    rsp.status(200).send(constants.SUCCESS({ followedArtists: following }));
+}
+
+/**
+ * Unfollows an artist.
+ * @param req The HTTP request.
+ * @param rsp The new response.
+ */
+async function unfollowArtist(req: Request, rsp: Response): Promise<void> {
+    // Check for authorization.
+    const token = getToken(req);
+    if (token == null) {
+        rsp.status(403).send(constants.NO_AUTHORIZATION());
+        return;
+    }
+
+    // Get the user from the database.
+    const user = await database.getUserByToken(token);
+    if (user == null) {
+        rsp.status(404).send(constants.INVALID_TOKEN());
+        return;
+    }
+
+    // Remove the artist.
+    const id = req.params.id;
+    user.followedArtists = (user.followedArtists ?? [])
+        .filter((artist) => artist.id != id);
     await database.updateUser(user);
 
-    // Send the list of favorites.
-    rsp.status(200).send(user.likedSongs);
+    rsp.status(200).send(constants.SUCCESS({ followedArtists: user.followedArtists }));
 }
 
 /* -------------------------------------------------- */
@@ -189,6 +452,11 @@ app.get("/user", fetch);
 app.get("/user/auth", auth);
 app.post("/user/auth", auth);
 app.post("/user/favorite", favorite);
+app.get("/user/favorites", fetchFavorites);
+app.post("/user/favorites", editFavorites);
+app.delete("/user/favorites", editFavorites);
+app.post("/user/artists", followArtist);
+app.delete("/user/artists/:id", unfollowArtist);
 app.get("/user/:id", fetch);
 
 /* Export the router. */
@@ -0,0 +1,45 @@
+/* Imports. */
+import type { SearchResult } from "app/types";
+
+/**
+ * Creates a search result.
+ * @param title The title of the result.
+ * @param artist The artist or channel of the result.
+ * @param duration The duration in seconds.
+ * @param id The ID of the result.
+ */
+function result(title: string, artist: string, duration: number, id: string = "dQw4w9WgXcQ"): SearchResult {
+    return { title, artist, duration, id, icon: "", url: `https://youtu.be/${id}` };
+}
+
+/* Tracks from Spotify. */
+export const tracks = {
+    blindingLights: result("Blinding Lights", "The Weeknd", 200, "USUG11904206"),
+    hereComesTheSun: result("Here Comes The Sun - Remastered 2009", "The Beatles", 185, "GBAYE0601690"),
+    stay: result("Stay (with Justin Bieber)", "The Kid LAROI, Justin Bieber", 141, "USSM12105970"),
+    peaches: result("Peaches (feat. Daniel Caesar & Giveon)", "Justin Bieber", 198, "USUM72102471")
+};
+
+/* YouTube search results for the tracks. */
+export const results = {
+    blindingLights: {
+        topic: result("Blinding Lights", "The Weeknd - Topic", 201, "4NRXx6U8ABQ"),
+        video: result("The Weeknd - Blinding Lights (Official Video)", "TheWeekndVEVO", 262, "4NRXx6U8ABR"),
+        live: result("Blinding Lights (Live)", "The Weeknd - Topic", 242, "4NRXx6U8ABS"),
+        cover: result("Blinding Lights", "Acoustic Covers Band", 199, "4NRXx6U8ABT"),
+        taggedCover: result("The Weeknd - Blinding Lights (Cover)", "Acoustic Covers Band", 200, "4NRXx6U8ABW"),
+        remix: result("Blinding Lights (Chromatics Remix)", "The Weeknd - Topic", 200, "4NRXx6U8ABX"),
+        other: result("Save Your Tears", "The Weeknd - Topic", 215, "4NRXx6U8ABU")
+    },
+    hereComesTheSun: {
+        topic: result("Here Comes The Sun (Remastered 2009)", "The Beatles - Topic", 186, "KQetemT1sWc"),
+        lyrics: result("The Beatles - Here Comes The Sun [Lyrics]", "Lyric Channel", 190, "KQetemT1sWd")
+    },
+    stay: {
+        topic: result("STAY", "The Kid LAROI - Topic", 142, "kTJczUoc26U")
+    },
+    peaches: {
+        topic: result("Peaches", "Justin Bieber - Topic", 198, "tQ0yjYUFKAE"),
+        featuring: result("Justin Bieber - Peaches ft. Daniel Caesar, Giveon", "JustinBieberVEVO", 200, "tQ0yjYUFKAF")
+    }
+};
@@ -0,0 +1,47 @@
+/* Imports. */
+import { normalizeTitle, splitArtists } from "filters/ranking";
+
+jest.mock("app/index", () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+jest.mock("discord.js", () => ({ EmbedBuilder: jest.fn(), WebhookClient: jest.fn() }));
+
+describe("normalizeTitle", () => {
+    it("removes remaster tags", () => {
+        expect(normalizeTitle("Here Comes The Sun - Remastered 2009")).toBe("here comes the sun");
+        expect(normalizeTitle("Here Comes The Sun (Remastered 2009)")).toBe("here comes the sun");
+    });
+
+    it("removes featured artists", () => {
+        expect(normalizeTitle("Peaches (feat. Daniel Caesar & Giveon)")).toBe("peaches");
+        expect(normalizeTitle("Peaches ft. Daniel Caesar, Giveon")).toBe("peaches");
+    });
+
+    it("removes bracketed text", () => {
+        expect(normalizeTitle("Blinding Lights [Official Video]")).toBe("blinding lights");
+    });
+
+    it("removes the artist prefix of videos", () => {
+        expect(normalizeTitle("The Weeknd - Blinding Lights", "The Weeknd")).toBe("blinding lights");
+        expect(normalizeTitle("The Weeknd - Blinding Lights", "Lyric Channel")).toBe("the weeknd blinding lights");
+    });
+
+    it("keeps dashes which are part of the title", () => {
+        expect(normalizeTitle("Up - Down", "Someone Else")).toBe("up down");
+    });
+});
+
+describe("splitArtists", () => {
+    it("splits lists of artists", () => {
+        expect(splitArtists("The Kid LAROI, Justin Bieber")).toEqual(["the kid laroi", "justin bieber"]);
+        expect(splitArtists("Daniel Caesar & Giveon")).toEqual(["daniel caesar", "giveon"]);
+        expect(splitArtists("Justin Bieber feat. Giveon")).toEqual(["justin bieber", "giveon"]);
+    });
+
+    it("removes channel suffixes", () => {
+        expect(splitArtists("The Weeknd - Topic")).toEqual(["the weeknd"]);
+        expect(splitArtists("TheWeekndVEVO")).toEqual(["theweeknd"]);
+    });
+
+    it("ignores empty names", () => {
+        expect(splitArtists("")).toEqual([]);
+    });
+});
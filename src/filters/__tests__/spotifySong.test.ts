@@ -0,0 +1,99 @@
+/* Imports. */
+import { bestMatch, confidence, threshold } from "filters/spotifySong";
+import { results, tracks } from "./fixtures";
+
+jest.mock("app/index", () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+jest.mock("discord.js", () => ({ EmbedBuilder: jest.fn(), WebhookClient: jest.fn() }));
+jest.mock("engines/youtube", () => ({ search: jest.fn() }));
+
+describe("confidence", () => {
+    it("scores the official audio highest", () => {
+        const score = confidence(tracks.blindingLights, results.blindingLights.topic);
+        expect(score).toBe(1);
+    });
+
+    it("rewards 'Topic' channels", () => {
+        const topic = { ...results.blindingLights.topic, duration: 230 };
+        const upload = { ...topic, artist: "The Weeknd" };
+        expect(confidence(tracks.blindingLights, topic)).toBeGreaterThan(confidence(tracks.blindingLights, upload));
+    });
+
+    it("matches remastered titles", () => {
+        expect(confidence(tracks.hereComesTheSun, results.hereComesTheSun.topic)).toBeGreaterThanOrEqual(threshold);
+    });
+
+    it("matches titles with featured artists", () => {
+        expect(confidence(tracks.peaches, results.peaches.topic)).toBeGreaterThanOrEqual(threshold);
+        expect(confidence(tracks.peaches, results.peaches.featuring)).toBeGreaterThanOrEqual(threshold);
+        expect(confidence(tracks.stay, results.stay.topic)).toBeGreaterThanOrEqual(threshold);
+    });
+
+    it("uses the artist named in video titles", () => {
+        expect(confidence(tracks.hereComesTheSun, results.hereComesTheSun.lyrics)).toBeGreaterThanOrEqual(threshold);
+    });
+
+    it("penalizes duration mismatches", () => {
+        const upload = { ...results.blindingLights.topic, artist: "The Weeknd" };
+        expect(confidence(tracks.blindingLights, upload)).toBe(1);
+        expect(confidence(tracks.blindingLights, { ...upload, duration: 215 })).toBeCloseTo(0.88);
+        expect(confidence(tracks.blindingLights, { ...upload, duration: 260 })).toBeCloseTo(0.7);
+    });
+
+    it("ignores small duration differences", () => {
+        const close = { ...results.blindingLights.topic, duration: 203 };
+        expect(confidence(tracks.blindingLights, close)).toBe(1);
+    });
+
+    it("ignores durations which are unknown", () => {
+        const unknown = { ...results.blindingLights.topic, duration: 0 };
+        expect(confidence(tracks.blindingLights, unknown)).toBe(1);
+    });
+
+    it("rejects covers by other artists", () => {
+        expect(confidence(tracks.blindingLights, results.blindingLights.cover)).toBeLessThan(threshold);
+        expect(confidence(tracks.blindingLights, results.blindingLights.taggedCover)).toBeLessThan(threshold);
+    });
+
+    it("rejects remixes", () => {
+        expect(confidence(tracks.blindingLights, results.blindingLights.remix)).toBeLessThan(threshold);
+    });
+
+    it("rejects live versions", () => {
+        expect(confidence(tracks.blindingLights, results.blindingLights.live)).toBeLessThan(threshold);
+    });
+
+    it("rejects other tracks by the artist", () => {
+        expect(confidence(tracks.blindingLights, results.blindingLights.other)).toBeLessThan(threshold);
+    });
+
+    it("stays between 0 and 1", () => {
+        for (const result of Object.values(results.blindingLights)) {
+            const score = confidence(tracks.blindingLights, result);
+            expect(score).toBeGreaterThanOrEqual(0);
+            expect(score).toBeLessThanOrEqual(1);
+        }
+    });
+});
+
+describe("bestMatch", () => {
+    it("picks the closest result", () => {
+        const candidates = Object.values(results.blindingLights);
+        expect(bestMatch(tracks.blindingLights, candidates)).toBe(results.blindingLights.topic);
+    });
+
+    it("prefers earlier results on a tie", () => {
+        const copy = { ...results.blindingLights.topic, id: "4NRXx6U8ABV" };
+        expect(bestMatch(tracks.blindingLights, [results.blindingLights.topic, copy])).toBe(
+            results.blindingLights.topic
+        );
+    });
+
+    it("rejects results below the threshold", () => {
+        const { cover, taggedCover, remix, live, other } = results.blindingLights;
+        expect(bestMatch(tracks.blindingLights, [cover, taggedCover, remix, live, other])).toBeNull();
+    });
+
+    it("returns null without results", () => {
+        expect(bestMatch(tracks.blindingLights, [])).toBeNull();
+    });
+});
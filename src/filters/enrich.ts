@@ -0,0 +1,38 @@
+/* Imports. */
+import { logger } from "app/index";
+import type { Track, TrackMetadata } from "app/types";
+import { Cache } from "features/cache";
+
+import * as spotify from "engines/spotify";
+
+// Cached metadata by track ID.
+const metadata = new Cache<TrackMetadata>("metadata", 7 * 24 * 60 * 60e3, 5000, true);
+
+/**
+ * Fills in the missing metadata of a track.
+ * Input Data: A track from any engine.
+ * Output Data: The track with metadata from Spotify.
+ * @param track The track to enrich.
+ * @return The enriched track.
+ */
+export default async function <T extends Track>(track: T): Promise<T> {
+    // Check if the track is missing metadata.
+    if (track.album && track.artists && track.year && track.isrc && track.explicit != undefined && track.genre)
+        return track;
+
+    let found: TrackMetadata | null = null;
+    try {
+        found = await metadata.fetch(track.id, () => spotify.metadata(track));
+    } catch (error) {
+        logger.debug(`Failed to enrich track ${track.id}.`, error);
+    }
+    if (found == null) return track;
+
+    // Only fill in the missing values.
+    const enriched = { ...track };
+    for (const key in found) {
+        if (enriched[key] == undefined && found[key] != undefined) enriched[key] = found[key];
+    }
+
+    return enriched;
+}
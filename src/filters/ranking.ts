@@ -0,0 +1,103 @@
+/* Imports. */
+import { SearchResult } from "app/types";
+import { identifyId } from "app/utils";
+
+/**
+ * Merges duplicate search results.
+ * Results found more than once are ranked higher.
+ * The first occurrence of a result is kept.
+ * @param results The results to rank.
+ * @return The ranked results.
+ */
+export default function (results: SearchResult[]): SearchResult[] {
+    const groups: { result: SearchResult; count: number; index: number }[] = [];
+    for (const [index, result] of results.entries()) {
+        if (!result) continue;
+
+        // Check if the result was already found.
+        const group = groups.find((group) => isDuplicate(group.result, result));
+        if (group) group.count++;
+        else groups.push({ result, count: 1, index });
+    }
+
+    return groups.sort((a, b) => b.count - a.count || a.index - b.index).map((group) => group.result);
+}
+
+/**
+ * Checks if two results are the same track.
+ * Compares ISRCs when both results have one.
+ * @param a The first result.
+ * @param b The second result.
+ */
+export function isDuplicate(a: SearchResult, b: SearchResult): boolean {
+    const isrcA = getIsrc(a),
+        isrcB = getIsrc(b);
+    if (isrcA && isrcB) return isrcA == isrcB;
+
+    return (
+        normalizeArtist(a.artist) == normalizeArtist(b.artist) &&
+        normalizeTitle(a.title, a.artist) == normalizeTitle(b.title, b.artist) &&
+        Math.abs(a.duration - b.duration) <= 3
+    );
+}
+
+/**
+ * Returns the ISRC of a result.
+ * Spotify results use the ISRC as their ID.
+ * @param result The result to check.
+ */
+function getIsrc(result: SearchResult): string | null {
+    return result.id?.length == 12 && identifyId(result.id) == "Spotify" ? result.id : null;
+}
+
+/**
+ * Simplifies a title for comparison.
+ * Removes bracketed text, featured artists, remaster tags & the artist prefix of videos.
+ * @param title The title to normalize.
+ * @param artist (optional) The artist of the track.
+ */
+export function normalizeTitle(title: string, artist: string = ""): string {
+    let normalized = title
+        .toLowerCase()
+        .replace(/\(.*?\)|\[.*?]/g, "")
+        .replace(/\s(feat|ft)\.?\s.*$/, "")
+        .replace(/\s-\s[^-]*remaster[^-]*$/, "");
+
+    // Remove the artist prefix. ('Artist - Title')
+    const parts = normalized.split(" - ");
+    if (parts.length > 1 && simplify(parts[0]) == normalizeArtist(artist)) normalized = parts.slice(1).join(" - ");
+
+    return simplify(normalized);
+}
+
+/**
+ * Simplifies an artist for comparison.
+ * Only the main artist is kept.
+ * @param artist The artist to normalize.
+ */
+export function normalizeArtist(artist: string): string {
+    return splitArtists(artist)[0] ?? "";
+}
+
+/**
+ * Splits a list of artists for comparison.
+ * @param artist The artists to split. ('A, B & C')
+ * @return The simplified artists.
+ */
+export function splitArtists(artist: string): string[] {
+    return artist
+        .toLowerCase()
+        .replace(/\s*-\s*topic$/, "")
+        .replace(/vevo$/, "")
+        .split(/,|&|\s(?:feat|ft|x)\.?\s/)
+        .map(simplify)
+        .filter((name) => name.length > 0);
+}
+
+/**
+ * Removes punctuation & extra whitespace.
+ * @param text The text to simplify.
+ */
+function simplify(text: string): string {
+    return text.replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
@@ -1,7 +1,12 @@
 /* Imports. */
 import { SearchResult, SearchResults } from "app/types";
+import { normalizeTitle, splitArtists } from "filters/ranking";
 import * as youtube from "engines/youtube";
 
+export const threshold = 0.7; // The minimum confidence of a match.
+// Words which mark a different version of a track.
+const versionTags = ["live", "cover", "karaoke", "instrumental", "remix", "acoustic", "sped up", "slowed"];
+
 /**
  * Filters the specified data.
  * Input Data: YouTube search results for an ISRC.
@@ -34,19 +39,105 @@ async function filter(data: SearchResult): Promise<SearchResult | undefined> {
     // Perform a YouTube search for the song.
     const results = (await youtube.search(`${data.title} - ${data.artist} - Topic`)).results;
     // Check if a song matches the result.
-    const result = results.find((result) => {
-        return (
-            result.title == data.title &&
-            (result.artist.includes(data.artist) ||
-                result.artist.includes("Various Artists")) &&
-            result.artist.includes("Topic")
-        );
-    });
+    const result = bestMatch(data, results);
 
     // Return the result if it exists.
     if (result) return result;
 
     // Attempt to perform a YouTube lookup.
-    const searchQuery = `${data.title} ${data.artist} - Topic`;
-    return (await youtube.search(searchQuery)).top;
+    const searchQuery = `${data.title} ${data.artist}`;
+    return bestMatch(data, (await youtube.search(searchQuery)).results) ?? undefined;
+}
+
+/**
+ * Picks the result which matches a track the closest.
+ * @param track The track to match.
+ * @param candidates The YouTube results.
+ * @return The closest result, or null if none are above the threshold.
+ */
+export function bestMatch(track: SearchResult, candidates: SearchResult[]): SearchResult | null {
+    let best: SearchResult | null = null, bestScore = threshold;
+    for (const candidate of candidates) {
+        // Earlier results win ties, as they rank higher in the search.
+        const score = confidence(track, candidate);
+        if (best == null ? score >= bestScore : score > bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Scores how closely a YouTube result matches a track.
+ * Compares the normalized titles & the sets of artists.
+ * Results with a different duration or version are penalized.
+ * @param track The track to match.
+ * @param candidate The YouTube result.
+ * @return The confidence of the match. (0 -> 1)
+ */
+export function confidence(track: SearchResult, candidate: SearchResult): number {
+    // Videos by other channels can still name the track's artist in the title.
+    const normalized = normalizeTitle(track.title, track.artist);
+    const title = Math.max(
+        similarity(normalized, normalizeTitle(candidate.title, candidate.artist)),
+        similarity(normalized, normalizeTitle(candidate.title, track.artist)));
+
+    // Videos often name the artist in the title. ('Artist - Title')
+    const prefix = candidate.title.split(" - ");
+    const artists = overlap(
+        splitArtists(track.artist),
+        splitArtists(candidate.artist).concat(
+            prefix.length > 1 ? splitArtists(prefix[0]) : []));
+
+    // Allow a few seconds of difference for intros & outros.
+    const difference = Math.abs(track.duration - candidate.duration);
+    const duration = track.duration && candidate.duration ?
+        Math.min(Math.max(difference - 3, 0) / 30, 1) * 0.3 : 0;
+    // Auto-generated "Topic" channels upload the official audio.
+    const topic = candidate.artist.endsWith("- Topic") ? 0.05 : 0;
+    // Live versions, covers & remixes are not the track.
+    const version = versionTags.some((tag) =>
+        hasWord(candidate.title, tag) && !hasWord(track.title, tag)) ? 0.4 : 0;
+
+    return Math.max(Math.min(title * 0.6 + artists * 0.4 - duration - version + topic, 1), 0);
+}
+
+/**
+ * Checks if a title contains a word.
+ * @param title The title to check.
+ * @param word The word to find.
+ */
+function hasWord(title: string, word: string): boolean {
+    return new RegExp(`\\b${word}\\b`).test(title.toLowerCase());
+}
+
+/**
+ * Compares the words of two strings.
+ * @param a The first string.
+ * @param b The second string.
+ * @return The share of words in common. (0 -> 1)
+ */
+function similarity(a: string, b: string): number {
+    if (a == b) return 1;
+
+    const wordsA = new Set(a.split(" ")), wordsB = new Set(b.split(" "));
+    const common = [...wordsA].filter((word) => wordsB.has(word)).length;
+    return common / new Set([...wordsA, ...wordsB]).size;
+}
+
+/**
+ * Compares two sets of artists.
+ * Uploads usually only credit the main artist.
+ * @param a The first artists.
+ * @param b The second artists.
+ * @return The share of the smaller set found in the other. (0 -> 1)
+ */
+function overlap(a: string[], b: string[]): number {
+    const setA = new Set(a), setB = new Set(b);
+    if (setA.size == 0 || setB.size == 0) return 0;
+
+    const common = [...setA].filter((artist) => setB.has(artist)).length;
+    return common / Math.min(setA.size, setB.size);
 }
@@ -24,6 +24,7 @@ import "./engines/smart";
 import "./engines/youtube";
 import "./engines/ytmusic";
 import "./engines/spotify";
+import "./engines/soundcloud";
 import "./features/database";
 
 /* Create an Express app. */
@@ -40,13 +41,23 @@ import cors from "cors";
 app.use(cors({ origin: "*" }));
 
 /* Configure web features. */
+app.use(require("./features/history").default);
+app.use(require("./features/recap").default);
 app.use(require("./features/user").default);
 app.use(require("./features/proxy").default);
 app.use(require("./features/search").default);
+app.use(require("./features/browse").default);
+app.use(require("./features/matches").default);
+app.use(require("./features/radio").default);
 app.use(require("./features/stream").default);
 app.use(require("./features/social").default);
+app.use(require("./features/home").default);
+app.use(require("./features/room").default);
 app.use(require("./features/discord").default);
 app.use(require("./features/playlist").default);
+app.use(require("./features/playlistFiles").default);
+app.use(require("./features/lyrics").default);
+app.use(require("./features/admin").default);
 /* Configure websocket features. */
 app.ws("/", require("./features/gateway").default);
 /* Configure static routing. */
@@ -0,0 +1,25 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { PlayerModeMessage } from "app/types";
+
+import * as playback from "features/playback";
+
+/**
+ * Handles the player mode message received.
+ * @param client The client that sent the message.
+ * @param data The player mode message received.
+ */
+export default async function (client: Client, data: PlayerModeMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    const { shuffle, repeat } = data; // Pull message data.
+    const state = await playback.getState(client.getUserId());
+
+    // Update the player modes.
+    if (typeof shuffle == "boolean") state.shuffle = shuffle;
+    if (repeat == "None" || repeat == "Track" || repeat == "Queue") state.repeat = repeat;
+
+    // Save & share the state.
+    playback.save(client.getUserId());
+    await client.syncPlayback();
+}
@@ -0,0 +1,49 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { QueueMessage, Track } from "app/types";
+
+import * as validate from "app/validate";
+import { isIndex } from "app/utils";
+import * as playback from "features/playback";
+
+/**
+ * Handles the queue message received.
+ * @param client The client that sent the message.
+ * @param data The queue message received.
+ */
+export default async function (client: Client, data: QueueMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    const { action, index } = data; // Pull message data.
+    const tracks: Track[] = data.tracks ?? [];
+    // Validate the tracks.
+    if (!tracks.every((track) => validate.track(track))) return;
+
+    // Modify the user's queue.
+    const state = await playback.getState(client.getUserId());
+    switch (action) {
+        default:
+            return;
+        case "add":
+            state.queue.push(...tracks);
+            break;
+        case "insert":
+            if (!isIndex(index, state.queue.length + 1)) return;
+            state.queue.splice(index, 0, ...tracks);
+            break;
+        case "remove":
+            if (!isIndex(index, state.queue.length)) return;
+            state.queue.splice(index, 1);
+            break;
+        case "set":
+            state.queue = tracks;
+            break;
+        case "clear":
+            state.queue = [];
+            break;
+    }
+
+    // Save & share the state.
+    playback.save(client.getUserId());
+    await client.syncPlayback();
+}
@@ -0,0 +1,38 @@
+/* Imports. */
+import { Client, getUserById } from "features/gateway";
+import type { SkipMessage, SyncMessage } from "app/types";
+
+import * as playback from "features/playback";
+
+/**
+ * Handles the skip message received.
+ * @param client The client that sent the message.
+ * @param data The skip message received.
+ */
+export default async function (client: Client, data: SkipMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    const userId = client.getUserId();
+    const state = await playback.getState(userId);
+
+    // Move to the next/previous track.
+    const track = data.direction == "previous" ? playback.previous(state) : playback.next(state);
+    state.paused = track == null;
+
+    // Find the client playing for the user.
+    const device = (getUserById(userId) ?? []).find((other) => other.getId() == state.device) ?? client;
+    state.device = device.getId();
+
+    // Play the track on the device.
+    device.send(<SyncMessage>{
+        type: "sync",
+        track,
+        progress: 0,
+        paused: state.paused,
+        seek: true
+    });
+
+    // Save & share the state.
+    playback.save(userId);
+    await client.syncPlayback();
+}
@@ -0,0 +1,20 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { PlayerStateMessage } from "app/types";
+
+import * as playback from "features/playback";
+
+/**
+ * Handles the player state message received.
+ * @param client The client that sent the message.
+ * @param data The player state message received.
+ */
+export default async function (client: Client, data: PlayerStateMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    // Send the user's player state.
+    client.send(<PlayerStateMessage>{
+        type: "player-state",
+        state: await playback.getState(client.getUserId())
+    });
+}
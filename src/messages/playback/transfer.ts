@@ -0,0 +1,15 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { TransferMessage } from "app/types";
+
+/**
+ * Handles the transfer message received.
+ * @param client The client that sent the message.
+ * @param data The transfer message received.
+ */
+export default async function (client: Client, data: TransferMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    // Move playback to the client.
+    await client.transferPlayback();
+}
@@ -2,6 +2,7 @@
 import { logger } from "app/index";
 import { Client } from "features/gateway";
 import type { PlayerMessage } from "app/types";
+import * as history from "features/history";
 
 /**
  * Handles the player message received.
@@ -21,6 +22,9 @@ export default function (client: Client, data: PlayerMessage) {
         }
     }
 
+    // Record the play in the user's history.
+    history.update(client, track, paused, seek ?? 0);
+
     // Update player data.
     client.startedListening = track ? Date.now() : null;
     client.listeningTo = track;
@@ -37,5 +41,8 @@ export default function (client: Client, data: PlayerMessage) {
         // Update the client's online status.
         client.updateOnlineStatus()
             .catch(err => logger.warn(err));
+        // Update the user's player state.
+        client.updatePlayback()
+            .catch(err => logger.warn(err));
     }
 }
\ No newline at end of file
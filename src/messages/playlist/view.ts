@@ -0,0 +1,24 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import { canView } from "features/playlist";
+import * as database from "features/database";
+import type { ViewPlaylistMessage } from "app/types";
+
+/**
+ * Handles the view playlist message received.
+ * @param client The client that sent the message.
+ * @param data The view playlist message received.
+ */
+export default async function (client: Client, data: ViewPlaylistMessage) {
+    // Check if the client stopped viewing.
+    if (!data.id) {
+        client.viewing = null;
+        return;
+    }
+
+    // Check if the client can view the playlist.
+    const playlist = await database.getPlaylist(data.id);
+    if (!playlist || !canView(playlist, client.getUserId())) return;
+
+    client.viewing = playlist.id;
+}
@@ -0,0 +1,24 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import { createRoom } from "features/room";
+import type { CreateRoomMessage } from "app/types";
+
+/**
+ * Handles the create room message received.
+ * @param client The client that sent the message.
+ * @param data The create room message received.
+ */
+export default function (client: Client, data: CreateRoomMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    // Check if the client is already hosting a room.
+    if (client.room?.isHost(client)) {
+        client.room.broadcast();
+        return;
+    }
+
+    // Leave the current room.
+    client.room?.leave(client);
+    // Create a new room.
+    createRoom(client);
+}
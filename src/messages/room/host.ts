@@ -0,0 +1,21 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { TransferHostMessage } from "app/types";
+
+/**
+ * Handles the transfer host message received.
+ * @param client The client that sent the message.
+ * @param data The transfer host message received.
+ */
+export default function (client: Client, data: TransferHostMessage) {
+    const room = client.room;
+    // Check if the client is hosting a room.
+    if (!room || !room.isHost(client)) return;
+
+    // Find a client of the new host.
+    const target = Object.values(room.members).find((member) => member.getUserId() == data.to);
+    if (!target) return;
+
+    // Transfer the room.
+    room.transferHost(target);
+}
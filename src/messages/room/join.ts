@@ -0,0 +1,20 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import { getRoom } from "features/room";
+import type { JoinRoomMessage } from "app/types";
+
+/**
+ * Handles the join room message received.
+ * @param client The client that sent the message.
+ * @param data The join room message received.
+ */
+export default function (client: Client, data: JoinRoomMessage) {
+    if (!client.isLoggedIn()) return; // Check if the client is logged in.
+
+    // Get the room to join.
+    const room = getRoom(data.id);
+    if (!room) return;
+
+    // Join the room.
+    room.join(client);
+}
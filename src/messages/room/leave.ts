@@ -0,0 +1,13 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { LeaveRoomMessage } from "app/types";
+
+/**
+ * Handles the leave room message received.
+ * @param client The client that sent the message.
+ * @param data The leave room message received.
+ */
+export default function (client: Client, data: LeaveRoomMessage) {
+    // Leave the client's room.
+    client.room?.leave(client);
+}
@@ -0,0 +1,20 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { QueueAddMessage } from "app/types";
+
+import * as validate from "app/validate";
+
+/**
+ * Handles the queue add message received.
+ * @param client The client that sent the message.
+ * @param data The queue add message received.
+ */
+export default function (client: Client, data: QueueAddMessage) {
+    // Check if the client is in a room.
+    if (!client.room) return;
+    // Validate the track.
+    if (!validate.track(data.track)) return;
+
+    // Add the track to the queue.
+    client.room.addToQueue(data.track);
+}
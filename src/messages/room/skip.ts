@@ -0,0 +1,13 @@
+/* Imports. */
+import { Client } from "features/gateway";
+import type { VoteSkipMessage } from "app/types";
+
+/**
+ * Handles the vote skip message received.
+ * @param client The client that sent the message.
+ * @param data The vote skip message received.
+ */
+export default function (client: Client, data: VoteSkipMessage) {
+    // Vote to skip the current track.
+    client.room?.voteSkip(client);
+}
@@ -1,6 +1,8 @@
 /* Imports. */
 import { Client } from "features/gateway";
 import type { SeekMessage } from "app/types";
+import * as playback from "features/playback";
+import * as history from "features/history";
 
 /**
  * Handles the playing message received.
@@ -11,6 +13,14 @@ export default async function (client: Client, data: SeekMessage) {
     if (!client.isLoggedIn()) return; // Check if the client is logged in.
 
     const { seek } = data; // Pull message data.
+    history.seek(client, seek); // Count the time listened before seeking.
     client.progress = seek; // Update the client's progress.
     await client.updateOnlineStatus(seek); // Update the client's online status.
+
+    // Update the user's player state.
+    const state = await playback.getState(client.getUserId());
+    if (client.isPlaying(state)) {
+        state.progress = seek;
+        playback.saveLater(client.getUserId());
+    }
 }
@@ -2,9 +2,18 @@
 // If needed, use /** */ to write extra information about the type.
 // Else, try not to bloat the types file.
 
+import type { Readable } from "node:stream";
+
 /**
  * @param icon The URL to the icon of the track.
- * @param duration The duration of the track in milliseconds.
+ * @param duration The duration of the track in seconds.
+ * @param album (optional) The name of the album the track is on.
+ * @param artists (optional) All artists of the track.
+ * @param year (optional) The year the track was released.
+ * @param isrc (optional) The ISRC of the track.
+ * @param explicit (optional) Does the track have explicit lyrics?
+ * @param genre (optional) The genre of the track.
+ * @param addedAt (optional) The time the track was added to a playlist.
  */
 export type Track = {
     title: string;
@@ -13,9 +22,27 @@ export type Track = {
     url: string;
     id: string;
     duration: number;
+
+    album?: string;
+    artists?: string[];
+    year?: number;
+    isrc?: string;
+    explicit?: boolean;
+    genre?: string;
+
+    addedAt?: number;
 };
+/**
+ * The optional metadata of a track.
+ */
+export type TrackMetadata = Pick<Track,
+    "album" | "artists" | "year" | "isrc" | "explicit" | "genre">;
 /**
  * @param icon The URL to the icon of the playlist.
+ * @param collaborators (optional) The users invited to the playlist.
+ * @param changes (optional) The most recent changes to the playlist.
+ * @param version (optional) Increased on every change. Used to detect conflicting edits.
+ * @param source (optional) Where the playlist was imported from.
  */
 export type Playlist = {
     owner: string;
@@ -25,6 +52,97 @@ export type Playlist = {
     icon: string;
     isPrivate: boolean;
     tracks: Track[];
+
+    collaborators?: Collaborator[];
+    changes?: PlaylistChange[];
+    version?: number;
+    source?: PlaylistSource;
+};
+/**
+ * @param url The URL of the imported playlist.
+ * @param engine The engine the playlist was imported with.
+ * @param trackIds The IDs of the tracks found in the last sync.
+ * @param autoSync Should the playlist be synced periodically?
+ * @param removeDeleted Should tracks removed from the source be removed?
+ * @param syncedAt The time the playlist was last synced.
+ * @param report What changed in the last sync.
+ */
+export type PlaylistSource = {
+    url: string;
+    engine: SearchEngine;
+    trackIds: string[];
+    autoSync: boolean;
+    removeDeleted: boolean;
+    syncedAt: number;
+    report?: SyncReport;
+};
+/**
+ * @param id The ID of the skipped video or track.
+ * @param title The title of the track, if it is known.
+ * @param reason Why the track was skipped.
+ */
+export type SkippedTrack = {
+    id: string;
+    title: string | null;
+    reason: string;
+};
+/**
+ * Engines update the progress as tracks are loaded.
+ * @param loaded The number of tracks loaded so far.
+ * @param total The number of tracks in the source playlist, if it is known.
+ * @param skipped The tracks which could not be imported.
+ */
+export type ImportProgress = {
+    loaded: number;
+    total: number | null;
+    skipped: SkippedTrack[];
+};
+/**
+ * @param id The ID of the import.
+ * @param owner The ID of the user who started the import.
+ * @param url The URL of the playlist being imported, or null for uploaded files.
+ * @param playlist The imported playlist, once the import is done.
+ */
+export type ImportJob = ImportProgress & {
+    id: string;
+    owner: string;
+    url: string | null;
+    status: "Running" | "Done" | "Failed";
+    startedAt: number;
+    playlist?: Playlist;
+};
+/**
+ * @param added The tracks added to the playlist.
+ * @param removed The tracks removed from the playlist.
+ */
+export type SyncReport = {
+    added: Track[];
+    removed: Track[];
+    syncedAt: number;
+};
+/**
+ * Editors can change the tracks of a playlist.
+ * Viewers can view the playlist, even if it is private.
+ */
+export type PlaylistRole = "Editor" | "Viewer";
+/**
+ * @param userId The ID of the invited user.
+ * @param invitedAt The time the user was invited.
+ */
+export type Collaborator = {
+    userId: string;
+    role: PlaylistRole;
+    invitedAt: number;
+};
+/**
+ * @param userId The ID of the user who made the change.
+ * @param type The type of edit made.
+ * @param timestamp The time the change was made.
+ */
+export type PlaylistChange = {
+    userId: string;
+    type: string;
+    timestamp: number;
 };
 
 export type Presence = {
@@ -101,6 +219,123 @@ export type OfflineUser = BasicUser & {
     lastListeningTo: Track;
 };
 
+/**
+ * @param engine The engine the artist is from.
+ */
+export type FollowedArtist = {
+    id: string;
+    name: string;
+    icon: string;
+    engine: SearchEngine;
+};
+
+/**
+ * @param sort The order of the tracks.
+ * @param search (optional) Text to search the titles & artists for.
+ * @param offset The number of tracks to skip.
+ * @param limit The maximum number of tracks to return.
+ */
+export type FavoritesQuery = {
+    sort: "added" | "title" | "artist" | "duration";
+    descending: boolean;
+    search?: string;
+    offset: number;
+    limit: number;
+};
+
+/**
+ * @param userId The user who played the track.
+ * @param startedAt The time the track started playing.
+ * @param listened How long the track was listened to, in milliseconds.
+ * @param device The ID of the client which played the track.
+ * @param skipped Was the track stopped before it ended?
+ */
+export type Play = {
+    userId: string;
+    track: Track;
+    startedAt: number;
+    listened: number;
+    device: string;
+    skipped: boolean;
+};
+/**
+ * @param listened How long the track was listened to, in milliseconds.
+ */
+export type TrackStats = {
+    track: Track;
+    plays: number;
+    listened: number;
+};
+/**
+ * @param listened How long the artist was listened to, in milliseconds.
+ */
+export type ArtistStats = {
+    artist: string;
+    plays: number;
+    listened: number;
+};
+/**
+ * @param range The time range of the top tracks & artists.
+ * @param listened The total time listened in the range, in milliseconds.
+ * @param currentStreak The number of days in a row the user has listened, up to today.
+ * @param longestStreak The most days in a row the user has listened.
+ */
+export type ListeningStats = {
+    range: StatsRange;
+    topTracks: TrackStats[];
+    topArtists: ArtistStats[];
+    plays: number;
+    listened: number;
+    currentStreak: number;
+    longestStreak: number;
+};
+export type StatsRange = "week" | "month" | "all";
+
+/**
+ * @param userId The user who listened along.
+ * @param hostId The user who was listened to.
+ * @param roomId The ID of the room joined.
+ * @param joinedAt The time the user joined.
+ */
+export type ListenSession = {
+    userId: string;
+    hostId: string;
+    roomId: string;
+    joinedAt: number;
+};
+
+/**
+ * @param generatedAt The time the recap was generated.
+ * @param minutes The minutes listened in the year.
+ * @param topMonth The month with the most plays, from 1 (January) to 12.
+ * @param firstTrack The first track played in the year.
+ * @param sessions The number of times the user listened along with others.
+ * @param shareId (optional) The ID of the public snapshot.
+ */
+export type Recap = {
+    userId: string;
+    year: number;
+    generatedAt: number;
+    topTracks: TrackStats[];
+    topArtists: ArtistStats[];
+    minutes: number;
+    topMonth: number | null;
+    firstTrack: Track | null;
+    sessions: number;
+    shareId?: string;
+};
+/**
+ * A public snapshot of a recap.
+ * @param socialStatus The user's social status when the recap was shared.
+ * @param recap The recap as it was when shared.
+ */
+export type SharedRecap = {
+    shareId: string;
+    sharedAt: number;
+    socialStatus: SocialStatus;
+    recap: Recap;
+};
+
 /**
  * @param accessToken The user's client access token.
  * @param refresh The user's refresh token.
@@ -113,6 +348,7 @@ export type User = BasicUser & {
     playlists?: string[];
     likedSongs?: Track[];
     recentlyPlayed?: Track[];
+    followedArtists?: FollowedArtist[];
 
     accessToken?: string;
     authCode?: string;
@@ -127,17 +363,278 @@ export type User = BasicUser & {
     presenceToken?: string;
 };
 
+/**
+ * @param time The time the line starts at in milliseconds.
+ */
+export type LyricLine = {
+    time: number;
+    text: string;
+};
+/**
+ * @param id The ID of the track the lyrics belong to.
+ * @param synced Do the lines have timestamps?
+ * @param plain The lyrics without timestamps.
+ * @param source The provider of the lyrics, or "User" if submitted.
+ * @param submittedBy The ID of the user who submitted the lyrics.
+ * @param fetchedAt When the providers were last asked for the lyrics.
+ */
+export type Lyrics = {
+    id: string;
+    synced: boolean;
+    lines: LyricLine[];
+    plain: string;
+    source: string;
+    submittedBy?: string;
+    fetchedAt?: number;
+};
+export type LyricsProvider = {
+    name: string;
+    fetch: (track: Track) => Promise<Lyrics | null>;
+};
+
+export type RepeatMode = "None" | "Track" | "Queue";
+/**
+ * @param history Previously played tracks, newest first.
+ * @param progress The progress of the track in seconds.
+ * @param device The ID of the gateway client which is playing.
+ */
+export type PlayerState = {
+    track: Track | null;
+    queue: Track[];
+    history: Track[];
+    shuffle: boolean;
+    repeat: RepeatMode;
+    progress: number;
+    paused: boolean;
+    device: string | null;
+};
+
+/**
+ * @param host The user ID of the host.
+ * @param hostOnline Is the host connected to the gateway?
+ * @param members (optional) The user IDs of all members, including the host. Only sent to members.
+ * @param skipVotes The number of votes to skip the current track.
+ */
+export type RoomInfo = {
+    id: string;
+    host: string;
+    hostOnline: boolean;
+    members?: string[];
+    queue: Track[];
+    listeningTo: Track | null;
+    progress: number;
+    paused: boolean;
+    skipVotes: number;
+};
+
 /*
  * Search.
  */
 
-export type SearchEngine = "YouTube" | "Spotify" | "SoundCloud" | "All";
+export type SearchEngine = "YouTube" | "YouTube Music" | "Spotify" | "SoundCloud" | "All";
 export type SearchResult = Track & {
     id?: string;
 };
+/**
+ * @param isrc The ISRC of the track.
+ * @param videoId The ID of the matching YouTube video, or null if it was rejected.
+ * @param confidence How closely the video matches the track. (0 -> 1)
+ * @param source How the match was made.
+ * @param reports The IDs of the users who reported the match as wrong.
+ * @param rejected The IDs of videos which were reported as wrong.
+ * @param submittedBy The ID of the user who submitted the match.
+ * @param suggestions (optional) The videos submitted by users which do not have enough votes yet.
+ */
+export type TrackMatch = {
+    isrc: string;
+    videoId: string | null;
+    confidence: number;
+    source: "Search" | "User";
+    reports: string[];
+    rejected: string[];
+    submittedBy?: string;
+    suggestions?: MatchSuggestion[];
+};
+/**
+ * @param videoId The ID of the submitted video.
+ * @param users The IDs of the users who submitted the video.
+ */
+export type MatchSuggestion = {
+    videoId: string;
+    users: string[];
+};
+export type SearchType = "songs" | "videos" | "albums" | "playlists" | "artists";
+/**
+ * @param next The token of the next page, or null if the radio ended.
+ */
+export type RadioPage = {
+    tracks: SearchResult[];
+    next: string | null;
+};
+export type RadioSeed = "track" | "artist" | "playlist";
+/**
+ * @param seed The track the mix was made from.
+ */
+export type RadioMix = RadioPage & {
+    seed: Track;
+};
+
+/*
+ * Home.
+ */
+
+export type HomeSectionName = "jumpBackIn" | "madeForYou" | "friendsPlaying" | "newReleases" | "friendsPlaylists";
+/**
+ * @param updatedAt The time the section was made.
+ * @param expires The time the section should be fetched again.
+ */
+export type HomeSection = {
+    name: HomeSectionName;
+    items: Track[] | RadioMix[] | OnlineUser[] | Album[] | PlaylistResult[];
+    updatedAt: number;
+    expires: number;
+};
+/**
+ * Only the list matching the searched type is filled.
+ * @param next The token of the next page, or null if there are no more results.
+ */
 export type SearchResults = {
     top: SearchResult;
     results: SearchResult[];
+    albums?: Album[];
+    artists?: Artist[];
+    playlists?: PlaylistResult[];
+    next?: string | null;
+};
+/**
+ * @param queries Completions of the partial query.
+ * @param tracks Tracks matching the partial query.
+ * @param artists Artists matching the partial query.
+ */
+export type Suggestions = {
+    queries: string[];
+    tracks: SearchResult[];
+    artists: Artist[];
+};
+/**
+ * @param owner The name of the playlist's creator.
+ * @param size The number of tracks in the playlist.
+ */
+export type PlaylistResult = {
+    id: string;
+    name: string;
+    owner: string;
+    icon: string;
+    url: string;
+    size: number | null;
+};
+/**
+ * Albums listed on an artist's page have no tracks.
+ * @param artistId The ID of the album's main artist.
+ * @param year The year the album was released.
+ */
+export type Album = {
+    id: string;
+    name: string;
+    artist: string;
+    artistId: string | null;
+    icon: string;
+    url: string;
+    year: number | null;
+    tracks: Track[];
+};
+/**
+ * @param topTracks The artist's most popular tracks.
+ */
+export type Artist = {
+    id: string;
+    name: string;
+    icon: string;
+    url: string;
+    topTracks: Track[];
+    albums: Album[];
+    singles: Album[];
+};
+
+export type AudioFormat = "mp3" | "opus" | "ogg" | "m4a" | "flac";
+/**
+ * @param bitrate The bitrate of the audio in kbps. Ignored for lossless formats.
+ */
+export type OutputOptions = {
+    format: AudioFormat;
+    bitrate: number;
+};
+/**
+ * @param file The name of the file in the storage path.
+ * @param size The size of the file in bytes.
+ * @param engine The engine the track was downloaded from.
+ * @param bitrate The bitrate of the audio in kbps.
+ */
+export type CachedTrack = {
+    id: string;
+    file: string;
+    size: number;
+    engine: SearchEngine | null;
+    bitrate: number | null;
+    created: number;
+    lastAccess: number;
+};
+/**
+ * @param size The number of values kept in memory.
+ * @param persistent Whether values are saved to the database.
+ */
+export type CacheStats = {
+    name: string;
+    size: number;
+    maxSize: number;
+    hits: number;
+    misses: number;
+    persistent: boolean;
+};
+/**
+ * @param length The total length of the audio in bytes.
+ * @param mimeType The MIME type of the audio container.
+ * @param open Opens a stream of the (inclusive) byte range.
+ */
+export type AudioSource = {
+    length: number;
+    mimeType: string;
+    open: (start: number, end: number) => Promise<Readable>;
+};
+/**
+ * @param smartFilter Whether to match the results with YouTube.
+ * @param type The type of results to search for. Defaults to songs.
+ * @param page The token of the page to continue from.
+ */
+export type SearchOptions = {
+    smartFilter?: boolean;
+    type?: SearchType;
+    page?: string;
+};
+/**
+ * Operations marked optional are not supported by every engine.
+ * @param search Performs a search.
+ * @param fetchTrack Fetches a track's data from its ID.
+ * @param stream Streams a track's audio.
+ * @param download Downloads a track into the storage.
+ * @param playlist Creates a playlist from a playlist URL.
+ * @param resolveUrl Extracts the ID of a track from its URL.
+ * @param reverse Converts an ID into the engine's own ID.
+ * @param album Fetches an album with its tracks.
+ * @param artist Fetches an artist's page.
+ * @param suggest Completes a partial search query.
+ */
+export type Engine = {
+    search(query: string, options?: SearchOptions): Promise<SearchResults>;
+    fetchTrack(id: string): Promise<Track | null>;
+    stream?(id: string, quality: string): Promise<AudioSource>;
+    download?(id: string, options?: OutputOptions): Promise<string>;
+    playlist?(url: string, progress?: ImportProgress): Promise<Playlist | null>;
+    resolveUrl?(url: string): Promise<string | null>;
+    reverse?(id: string): Promise<string | null>;
+    album?(id: string): Promise<Album | null>;
+    artist?(id: string): Promise<Artist | null>;
+    suggest?(query: string): Promise<Suggestions>;
 };
 
 /*
@@ -176,6 +673,75 @@ export type PlayerMessage = BaseGatewayMessage & {
     paused: boolean; // Is the player paused.
 };
 
+/**
+ * From client.
+ * @param id The ID of the playlist being viewed. Can be null to stop.
+ */
+export type ViewPlaylistMessage = BaseGatewayMessage & {
+    type: "view-playlist";
+    id: string | null;
+};
+
+// From client.
+export type CreateRoomMessage = BaseGatewayMessage & {
+    type: "create-room";
+};
+// From client.
+export type JoinRoomMessage = BaseGatewayMessage & {
+    type: "join-room";
+    id: string;
+};
+// From client.
+export type LeaveRoomMessage = BaseGatewayMessage & {
+    type: "leave-room";
+};
+// From client.
+export type QueueAddMessage = BaseGatewayMessage & {
+    type: "queue-add";
+    track: Track;
+};
+// From client.
+export type VoteSkipMessage = BaseGatewayMessage & {
+    type: "vote-skip";
+};
+/**
+ * From client.
+ * @param to The user ID of the member to make the host.
+ */
+export type TransferHostMessage = BaseGatewayMessage & {
+    type: "transfer-host";
+    to: string;
+};
+
+/**
+ * From client.
+ * @param index The index to insert or remove at.
+ */
+export type QueueMessage = BaseGatewayMessage & {
+    type: "queue";
+    action: "add" | "insert" | "remove" | "set" | "clear";
+    tracks?: Track[];
+    index?: number;
+};
+// From client.
+export type PlayerModeMessage = BaseGatewayMessage & {
+    type: "player-mode";
+    shuffle?: boolean;
+    repeat?: RepeatMode;
+};
+// From client.
+export type SkipMessage = BaseGatewayMessage & {
+    type: "skip";
+    direction: "next" | "previous";
+};
+/**
+ * From client.
+ * Moves playback to the client which sent the message.
+ */
+export type TransferMessage = BaseGatewayMessage & {
+    type: "transfer";
+};
+
 // To & from client.
 export type VolumeMessage = BaseGatewayMessage & {
     type: "volume";
@@ -201,6 +767,52 @@ export type SyncMessage = BaseGatewayMessage & {
     paused: boolean;
     seek: boolean;
 };
+/**
+ * To client.
+ * @param line The line being sung, or null if there is none.
+ * @param index The index of the line in the lyrics.
+ */
+export type LyricsLineMessage = BaseGatewayMessage & {
+    type: "lyrics-line";
+    line: LyricLine | null;
+    index: number;
+};
+/**
+ * To & from client.
+ * Clients send this without a state to request it.
+ */
+export type PlayerStateMessage = BaseGatewayMessage & {
+    type: "player-state";
+    state?: PlayerState;
+};
+/**
+ * To client.
+ * @param room The room the client is in. Null when the client left.
+ */
+export type RoomMessage = BaseGatewayMessage & {
+    type: "room";
+    room: RoomInfo | null;
+};
+/**
+ * To client.
+ * @param playlist The playlist after the change.
+ * @param change The change made to the playlist.
+ */
+export type PlaylistUpdatedMessage = BaseGatewayMessage & {
+    type: "playlist-updated";
+    playlist: Playlist;
+    change: PlaylistChange;
+};
+/**
+ * To client.
+ * Sent when the user's liked tracks change.
+ * @param action Were the tracks liked or unliked?
+ */
+export type FavoritesMessage = BaseGatewayMessage & {
+    type: "favorites";
+    action: "like" | "unlike";
+    tracks: Track[];
+};
 // To client.
 export type RecentsMessage = BaseGatewayMessage & {
     type: "recents";
@@ -1,5 +1,5 @@
 import type { Request } from "express";
-import type { SearchEngine } from "./types";
+import type { LyricLine, SearchEngine, Track } from "./types";
 import type { TTransportLogger } from "tslog";
 import type { ILogObject, IErrorObject } from "tslog/src/interfaces";
 
@@ -73,6 +73,15 @@ export function isUrl(url: string): boolean {
     }
 }
 
+/**
+ * Checks if the given value is an index of a list.
+ * @param index The value to check.
+ * @param length The length of the list.
+ */
+export function isIndex(index: any, length: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < length;
+}
+
 /**
  * Returns the authorization token in the request.
  * @param req The HTTP request.
@@ -150,6 +159,21 @@ export function modelFrom(object: object, model: object): object {
     return result; // Return the new object.
 }
 
+/**
+ * Creates a track from an object.
+ * Keeps the optional metadata of the track.
+ * @param object The object to create the track from.
+ */
+export function trackFrom(object: any): Track {
+    const track = modelFrom(object, constants.TRACK_MODEL) as Track;
+    // Copy the metadata.
+    for (const key of ["album", "artists", "year", "isrc", "explicit", "genre", "addedAt"]) {
+        if (object[key] != undefined) track[key] = object[key];
+    }
+
+    return track;
+}
+
 /**
  * Shuffles an array.
  * @param array The array to shuffle.
@@ -192,12 +216,40 @@ export async function streamToBuffer(stream: ReadStream): Promise<Buffer> {
     });
 }
 
+/**
+ * Parses LRC formatted lyrics.
+ * Lines without timestamps are ignored.
+ * @param lrc The LRC lyrics.
+ * @return The lines, sorted by time.
+ */
+export function parseLrc(lrc: string): LyricLine[] {
+    const lines: LyricLine[] = [];
+
+    for (const line of lrc.split(/\r?\n/)) {
+        // Pull all timestamps from the line.
+        const timestamps = [...line.matchAll(/\[(\d+):(\d+(?:\.\d+)?)]/g)];
+        const text = line.replace(/\[[^\]]*]/g, "").trim();
+
+        for (const [, minutes, seconds] of timestamps) {
+            lines.push({
+                time: Math.round((parseInt(minutes) * 60 + parseFloat(seconds)) * 1000),
+                text
+            });
+        }
+    }
+
+    return lines.sort((a, b) => a.time - b.time);
+}
+
 /**
  * Identifies what engine to use from an ID.
  * @param id The ID to identify.
  * @returns The engine, or null if none is found.
  */
 export function identifyId(id: string): SearchEngine | null {
+    // SoundCloud IDs are purely numeric.
+    if (/^\d+$/.test(id)) return "SoundCloud";
+
     switch (id.length) {
         case 11: return "YouTube";
         case 12: return "Spotify";
@@ -206,12 +258,22 @@ export function identifyId(id: string): SearchEngine | null {
     }
 }
 
+/**
+ * Identifies what engine an album or artist ID is from.
+ * @param id The ID to identify.
+ */
+export function identifyBrowseId(id: string): SearchEngine {
+    // Spotify IDs are 22 alphanumeric characters.
+    return /^[a-zA-Z0-9]{22}$/.test(id) ? "Spotify" : "YouTube Music";
+}
+
 /**
  * Identifies what engine to use from a URL.
  * @param url The URL to identify.
  * @returns The engine, or null if none is found.
  */
 export function identifyUrl(url: string): SearchEngine | null {
+    if (url.includes("https://music.youtube.com")) return "YouTube Music";
     if (url.includes("https://youtu.be")
         || url.includes("https://youtube.com")
         || url.includes("https://www.youtube.com")) return "YouTube";
@@ -227,10 +289,9 @@ export function identifyUrl(url: string): SearchEngine | null {
  */
 export function extractPlaylistId(url: string): string | null {
     const type = identifyUrl(url);
-    if (type == "YouTube")
-        return url.includes("playlist?list=") ?
-            url.split("playlist?list=")[1] :
-            url.split("https://youtu.be/")[1];
+    if (type == "YouTube" || type == "YouTube Music")
+        return new URL(url).searchParams.get("list") ??
+            url.split("https://youtu.be/")[1] ?? null;
     if (type == "Spotify") return url.split("playlist/")[1];
     if (type == "SoundCloud") return url.split("sets/")[1];
 
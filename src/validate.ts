@@ -17,6 +17,9 @@ export function track(track: any): boolean {
         typeof track.duration == "number";
     if (!basic) return false;
 
+    // Validate the metadata.
+    if (!metadata(track)) return false;
+
     // Validate the duration.
     if (track.duration < 0) return false;
     // Validate the URL.
@@ -26,6 +29,23 @@ export function track(track: any): boolean {
     return isUrl(track.icon);
 }
 
+/**
+ * Attempts to validate the optional metadata of a track.
+ * @param track The track to validate.
+ */
+export function metadata(track: any): boolean {
+    return (
+        (track.album == undefined || typeof track.album == "string") &&
+        (track.artists == undefined ||
+            (Array.isArray(track.artists) && track.artists.every((artist) => typeof artist == "string"))) &&
+        (track.year == undefined || typeof track.year == "number") &&
+        (track.isrc == undefined || typeof track.isrc == "string") &&
+        (track.explicit == undefined || typeof track.explicit == "boolean") &&
+        (track.genre == undefined || typeof track.genre == "string") &&
+        (track.addedAt == undefined || typeof track.addedAt == "number")
+    );
+}
+
 /**
  * Attempts to validate the playlist object.
  * @param playlist The playlist to validate.